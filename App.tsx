@@ -1,17 +1,58 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Play, Pause, Download, Activity, Layers, Wand2, Image as ImageIcon, Plus, Trash2, Copy } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Play, Pause, Download, Upload, Activity, Layers, Wand2, Image as ImageIcon, Plus, Trash2, Copy, X, Music, Undo2, Redo2, Save, FolderOpen, Diamond, SlidersHorizontal, AudioWaveform, Spline, ArrowLeftRight, ClipboardCopy, ClipboardPaste } from 'lucide-react';
 import WaveformCanvas from './components/WaveformCanvas';
 import Wavetable3D from './components/Wavetable3D';
-import HarmonicEditor from './components/HarmonicEditor';
+import HarmonicEditor, { DEFAULT_HARMONIC_SPECTRUM } from './components/HarmonicEditor';
+import ExportPanel, { getExportExtension } from './components/ExportPanel';
+import PreviewKeyboard from './components/PreviewKeyboard';
+import ScanPanel from './components/ScanPanel';
+import ScanPlayhead from './components/ScanPlayhead';
+import MorphPanel from './components/MorphPanel';
+import HarmonicLaneEditor from './components/HarmonicLaneEditor';
+import ImagePanel from './components/ImagePanel';
+import SamplePanel from './components/SamplePanel';
+import ProcessPanel from './components/ProcessPanel';
+import FrameStrip from './components/FrameStrip';
+import VectorEditor from './components/VectorEditor';
+import DrawToolbar from './components/DrawToolbar';
+import ResizePanel from './components/ResizePanel';
 import { 
   generateSine, 
   generateFromFormula, 
+  generateTableFromFormula,
+  FORMULA_VARIABLES,
+  TABLE_FORMULA_VARIABLES,
   generateFromHarmonics, 
-  exportWavetableToWav,
-  normalizeBuffer,
-  interpolateFrames
+  synthesizeHarmonics,
+  exportWavetableToWav
 } from './utils/audioUtils';
-import { FRAME_SIZE, MAX_FRAMES, GeneratorMode } from './types';
+import { bandLimitTable, resampleTable } from './utils/bandLimit';
+import { analyzeHarmonics } from './utils/fft';
+import { fillBetweenKeyframes, resizeFrames } from './utils/morph';
+import { renderLaneTable } from './utils/harmonicLanes';
+import { renderShape } from './utils/vectorShape';
+import { imageToFrames, ImagePixels, MAX_IMAGE_WIDTH, MAX_IMAGE_HEIGHT } from './utils/imageWavetable';
+import { exportWavetableToPng, readTableImageMetadata } from './utils/tableImage';
+import { DecodedSample, decodeAudioSample, detectPitch, resynthesizeSample } from './utils/sampleResynthesis';
+import { processFrames, getProcessFrames } from './utils/processing';
+import { TimelineState, SelectMode, selectFrames, insertFrameAfter, duplicateSelection, deleteSelection, reverseSelection, moveSelection, pasteFrames, resizeTimeline } from './utils/timeline';
+import { frameIndexToPosition } from './utils/wavetableOscillator';
+import { createPolySynth, PolySynth } from './utils/polySynth';
+import { getScanPosition, buildEnvelopeCurve } from './utils/scanModulation';
+import { exportPreviewRenderToWav } from './utils/offlineRender';
+import { HistoryState, HistorySnapshot, EMPTY_HISTORY, recordHistory, undoHistory, redoHistory } from './utils/history';
+import { compileExpression, getExpressionFunctionNames, getErrorLocation, ExpressionError } from './utils/expression';
+import { setFrameSource, getFrameSource, cloneFrame } from './utils/frameSources';
+import { WaveforgeProject, PROJECT_EXTENSION, exportProjectFile, parseProjectFile } from './utils/projectFile';
+import { saveAutosave, loadAutosave } from './utils/projectStorage';
+import { parseWavetableFile, exportWavetableToSurgeWt, exportWavetableToVital } from './utils/wavetableFormats';
+import { FRAME_SIZE, CYCLE_LENGTHS, MAX_FRAMES, GeneratorMode, ViewMode, SpectrumStyle, ExportFormat, ExportSettings, DEFAULT_EXPORT_SETTINGS, SynthSettings, DEFAULT_SYNTH_SETTINGS, ScanSettings, ScanSource, DEFAULT_SCAN_SETTINGS, FormulaScope, FormulaTableSettings, DEFAULT_FORMULA_TABLE_SETTINGS, HarmonicSpectrum, MAX_PARTIALS, MorphSettings, DEFAULT_MORPH_SETTINGS, HarmonicLaneSettings, DEFAULT_LANE_SETTINGS, ImageSettings, DEFAULT_IMAGE_SETTINGS, ImageMapping, ImageChannel, ImageExportContent, ImageEncoding, SampleResynthSettings, DEFAULT_SAMPLE_RESYNTH_SETTINGS, ProcessSettings, DEFAULT_PROCESS_SETTINGS, TableResizeSettings, DEFAULT_TABLE_RESIZE_SETTINGS, VectorPoint, DEFAULT_VECTOR_POINTS, DrawSettings, DEFAULT_DRAW_SETTINGS } from './types';
+
+const PLAY_TONE_NOTE = 36; // C2, 65.41 Hz
+const AUTOSAVE_DELAY_MS = 1000;
+// Table formula preview: enough to judge the evolution without rendering the full table per keystroke
+const PREVIEW_FRAME_SIZE = 256;
+const PREVIEW_MAX_FRAMES = 64;
 
 const App: React.FC = () => {
   // State
@@ -20,16 +61,49 @@ const App: React.FC = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [mode, setMode] = useState<GeneratorMode>(GeneratorMode.DRAW);
   const [formula, setFormula] = useState('Math.sin(x) * Math.cos(t * 5)');
-  const [playbackSpeed, setPlaybackSpeed] = useState(200); // ms per frame when scanning
+  const [harmonics, setHarmonics] = useState<HarmonicSpectrum>(DEFAULT_HARMONIC_SPECTRUM);
+  const [keyframes, setKeyframes] = useState<number[]>([]); // sorted frame indices
+  const [selection, setSelection] = useState<number[]>([]);  // sorted; ignored unless it holds currentIndex
+  const [selectionAnchor, setSelectionAnchor] = useState(0);  // shift-click extends from here
+  const [clipboard, setClipboard] = useState<Float32Array[]>([]);
+  const [drawSettings, setDrawSettings] = useState<DrawSettings>(DEFAULT_DRAW_SETTINGS);
+  const [vectorPoints, setVectorPoints] = useState<VectorPoint[]>(DEFAULT_VECTOR_POINTS);
+  const [morphSettings, setMorphSettings] = useState<MorphSettings>(DEFAULT_MORPH_SETTINGS);
+  const [resizeSettings, setResizeSettings] = useState<TableResizeSettings>(DEFAULT_TABLE_RESIZE_SETTINGS);
+  const [laneSettings, setLaneSettings] = useState<HarmonicLaneSettings>(DEFAULT_LANE_SETTINGS);
+  const [imageSettings, setImageSettings] = useState<ImageSettings>(DEFAULT_IMAGE_SETTINGS);
+  const [imagePixels, setImagePixels] = useState<ImagePixels | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [sample, setSample] = useState<DecodedSample | null>(null);
+  const [sampleSettings, setSampleSettings] = useState<SampleResynthSettings>(DEFAULT_SAMPLE_RESYNTH_SETTINGS);
+  const [processSettings, setProcessSettings] = useState<ProcessSettings>(DEFAULT_PROCESS_SETTINGS);
+  const [formulaTable, setFormulaTable] = useState<FormulaTableSettings>(DEFAULT_FORMULA_TABLE_SETTINGS);
+  const [importCycleLength, setImportCycleLength] = useState(FRAME_SIZE); // used when a WAV has no 'clm ' chunk
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [showExport, setShowExport] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.WAVEFORM);
+  const [spectrumStyle, setSpectrumStyle] = useState<SpectrumStyle>(SpectrumStyle.WATERFALL);
+  const [harmonicRange, setHarmonicRange] = useState<[number, number]>([1, 128]);
+  const [synth, setSynth] = useState<PolySynth | null>(null);
+  const [synthSettings, setSynthSettings] = useState<SynthSettings>(DEFAULT_SYNTH_SETTINGS);
+  const [activeNotes, setActiveNotes] = useState<Set<number>>(new Set());
+  const [scanSettings, setScanSettings] = useState<ScanSettings>(DEFAULT_SCAN_SETTINGS);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [sessionRestored, setSessionRestored] = useState(false); // autosave waits until the last session is back
   
   // Audio Refs
   const audioCtxRef = useRef<AudioContext | null>(null);
-  const oscillatorRef = useRef<OscillatorNode | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
-  const scanIntervalRef = useRef<number | null>(null);
+  const scanStartRef = useRef(0);       // AudioContext time when the LFO started
+  const lastNoteOnRef = useRef<number | null>(null); // performance.now() of the latest note, for the envelope playhead
+  const shortcutActionsRef = useRef({ undo: () => {}, redo: () => {}, copy: () => {}, paste: () => {} });
 
   // Initialize Audio
   useEffect(() => {
+    let disposed = false;
+    let created: PolySynth | null = null;
+
     const initAudio = async () => {
       if (!audioCtxRef.current) {
         const Ctx = window.AudioContext || (window as any).webkitAudioContext;
@@ -39,97 +113,286 @@ const App: React.FC = () => {
         gainNodeRef.current.gain.value = 0.1;
         gainNodeRef.current.connect(audioCtxRef.current!.destination);
       }
+      try {
+        created = await createPolySynth(audioCtxRef.current!, gainNodeRef.current!);
+        if (disposed) created.dispose();
+        else setSynth(created);
+      } catch (err) {
+        if (!disposed) setErrorMessage(`Audio preview unavailable: ${err instanceof Error ? err.message : String(err)}`);
+      }
     };
     initAudio();
     return () => {
+        disposed = true;
+        created?.dispose();
+        setSynth(null);
         if (audioCtxRef.current?.state !== 'closed') {
             audioCtxRef.current?.close();
         }
+        // Let a remount (StrictMode, HMR) build a fresh context instead of reusing the closed one
+        audioCtxRef.current = null;
+        gainNodeRef.current = null;
     };
   }, []);
 
-  // Update Audio when frame changes or Play state changes
+  // The synth patches only the frames that changed, so notes keep ringing while drawing or scanning
   useEffect(() => {
-    if (!audioCtxRef.current || !gainNodeRef.current) return;
+    synth?.setFrames(frames);
+  }, [synth, frames]);
 
-    const updateOscillator = () => {
-      if (oscillatorRef.current) {
-        oscillatorRef.current.disconnect();
-      }
+  // Glide to the selected frame instead of jumping, the processor crossfades in between.
+  // While scanning, the scan modulator owns the position and editing selection is left alone.
+  useEffect(() => {
+    if (scanSettings.enabled) return;
+    synth?.setPosition(frameIndexToPosition(currentIndex, frames.length));
+  }, [synth, currentIndex, frames.length, scanSettings.enabled]);
+
+  // Scan modulator: LFO and mod wheel run in the worklet, so they keep time with the audio and
+  // keep going in a background tab. Envelopes are scheduled per note, see startNote.
+  useEffect(() => {
+    const onAudioThread = scanSettings.enabled && scanSettings.source !== ScanSource.ENVELOPE;
+    synth?.setScan(onAudioThread ? scanSettings : null, scanStartRef.current);
+  }, [synth, scanSettings]);
 
-      // Create periodic wave from current frame
-      // We need to convert Time Domain -> Frequency Domain for createPeriodicWave
-      // However, for a simple preview, filling an AudioBuffer and playing it in a loop 
-      // is often more accurate to exactly what is drawn, especially for rough sketches.
-      
-      const buffer = audioCtxRef.current!.createBuffer(1, FRAME_SIZE, audioCtxRef.current!.sampleRate);
-      // Resample our 2048 frame to whatever the sample rate pitch requires? 
-      // Actually, to hear the wavetable "character", we usually play it at a fixed low-ish note (e.g. F1 or C2).
-      // At 44.1kHz, 2048 samples is ~21Hz. If we just loop it, it sounds like 21Hz.
-      // To play a specific pitch, we should use createPeriodicWave (requires FFT) or a looping buffer with playbackRate.
-      
-      const channelData = buffer.getChannelData(0);
-      // Copy current frame data
-      channelData.set(frames[currentIndex]);
-
-      const source = audioCtxRef.current!.createBufferSource();
-      source.buffer = buffer;
-      source.loop = true;
-      
-      // Pitch correction:
-      // 2048 samples at 44100Hz = 21.53Hz.
-      // If we want to hear Middle C (261.6Hz), we need to speed it up.
-      // Rate = DesiredFreq / (SampleRate / FrameSize)
-      // Rate = 261.6 / (44100 / 2048) ~= 12.15
-      // Let's play a nice bass note, e.g., C2 (65.41Hz)
-      const baseFreq = audioCtxRef.current!.sampleRate / FRAME_SIZE;
-      const targetFreq = 65.41; 
-      source.playbackRate.value = targetFreq / baseFreq;
-
-      source.connect(gainNodeRef.current!);
-      source.start();
-      oscillatorRef.current = source as any; // Storing BufferSource in the Ref typed as Oscillator (lazy hack, but functional for preview)
+  // Scan position 0..1 right now, or null when not scanning. The playheads sample it on their own
+  // animation frames, so scanning never re-renders the app.
+  const scanPlayhead = useMemo(() => {
+    if (!scanSettings.enabled) return null;
+    return () => {
+      if (scanSettings.source === ScanSource.ENVELOPE) {
+        const sinceNoteOn = lastNoteOnRef.current === null ? 0 : (performance.now() - lastNoteOnRef.current) / 1000;
+        return getScanPosition(scanSettings, sinceNoteOn);
+      }
+      return getScanPosition(scanSettings, (audioCtxRef.current?.currentTime ?? 0) - scanStartRef.current);
     };
+  }, [scanSettings]);
+
+  useEffect(() => {
+    synth?.setSettings(synthSettings);
+    if (gainNodeRef.current && audioCtxRef.current) {
+      // Squared for a more even perceived taper; 50% lands on the old fixed preview gain of 0.1
+      gainNodeRef.current.gain.setTargetAtTime(synthSettings.volume ** 2 * 0.4, audioCtxRef.current.currentTime, 0.02);
+    }
+  }, [synth, synthSettings]);
+
+  // The play button holds a drone on a nice bass note, C2, to hear the table's character
+  useEffect(() => {
+    if (!synth || !isPlaying) return;
+    startNote(PLAY_TONE_NOTE);
+    return () => synth.noteOff(PLAY_TONE_NOTE);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [synth, isPlaying]);
+
+  // Checked while typing so mistakes show up inline before generating
+  const formulaError = useMemo(() => {
+    try {
+      compileExpression(formula, formulaTable.scope === FormulaScope.FRAME ? FORMULA_VARIABLES : TABLE_FORMULA_VARIABLES);
+      return null;
+    } catch (err) {
+      // compileExpression only throws ExpressionError, but a bad formula must never take down the render
+      if (!(err instanceof ExpressionError)) return { message: String(err), line: 1, column: 1 };
+      return { message: err.message, ...getErrorLocation(formula, err.position) };
+    }
+  }, [formula, formulaTable.scope]);
+
+  // Frames a table-wide formula writes, inclusive
+  const getFormulaTableRange = (): [number, number] => {
+    if (formulaTable.scope === FormulaScope.TABLE) return [0, formulaTable.frameCount - 1];
+    const last = frames.length - 1;
+    const start = Math.max(0, Math.min(last, formulaTable.rangeStart));
+    return [start, Math.max(start, Math.min(last, formulaTable.rangeEnd))];
+  };
+
+  const formulaPreview = useMemo(() => {
+    if (mode !== GeneratorMode.MATH || formulaTable.scope === FormulaScope.FRAME || formulaError) return null;
+    const [start, end] = getFormulaTableRange();
+    return generateTableFromFormula(formula, start, end, PREVIEW_FRAME_SIZE, PREVIEW_MAX_FRAMES);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mode, formula, formulaError, formulaTable, frames.length]);
+
+  const lanePreview = useMemo(() => {
+    if (mode !== GeneratorMode.LANES) return null;
+    return renderLaneTable(laneSettings.lanes, Math.min(laneSettings.frameCount, PREVIEW_MAX_FRAMES), PREVIEW_FRAME_SIZE);
+  }, [mode, laneSettings]);
+
+  const imagePreview = useMemo(() => {
+    if (mode !== GeneratorMode.IMAGE || !imagePixels) return null;
+    return imageToFrames(imagePixels, imageSettings, PREVIEW_FRAME_SIZE, Math.min(imageSettings.frameCount, PREVIEW_MAX_FRAMES));
+  }, [mode, imagePixels, imageSettings]);
+
+  const detectedPitch = useMemo(() => {
+    if (!sample) return null;
+    const { samples, sampleRate } = sample;
+    return detectPitch(samples, sampleRate, sampleSettings.start * samples.length, sampleSettings.end * samples.length);
+  }, [sample, sampleSettings.start, sampleSettings.end]);
+  const sampleFrequency = sampleSettings.pitch ?? detectedPitch;
+
+  const samplePreview = useMemo(() => {
+    if (mode !== GeneratorMode.SAMPLE || !sample || sampleFrequency === null) return null;
+    try {
+      return resynthesizeSample(sample, sampleSettings, sampleFrequency, PREVIEW_FRAME_SIZE, Math.min(sampleSettings.frameCount, PREVIEW_MAX_FRAMES));
+    } catch {
+      return null;
+    }
+  }, [mode, sample, sampleSettings, sampleFrequency]);
 
-    if (isPlaying) {
-      updateOscillator();
+  // Restore the last session once on startup
+  useEffect(() => {
+    let cancelled = false;
+    loadAutosave()
+      .then(project => {
+        if (!cancelled && project) applyProject(project);
+      })
+      .catch(err => {
+        if (!cancelled) setErrorMessage(`Could not restore the last session: ${err instanceof Error ? err.message : String(err)}`);
+      })
+      .finally(() => {
+        if (!cancelled) setSessionRestored(true);
+      });
+    return () => { cancelled = true; };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!sessionRestored) return;
+    const timer = setTimeout(() => {
+      saveAutosave(getProject()).catch(err => {
+        setErrorMessage(`Autosave failed: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionRestored, frames, currentIndex, formula, harmonics, keyframes, morphSettings, laneSettings, exportSettings]);
+
+  // Selecting a generated frame loads its parameters back into the generator panel
+  useEffect(() => {
+    const source = getFrameSource(frames[currentIndex]);
+    if (source?.formula !== undefined) setFormula(source.formula);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentIndex]);
+
+  // The additive editor always shows the current frame: its stored partials if it was built in
+  // the editor, otherwise an FFT analysis, so any waveform can be edited harmonically
+  const currentFrame = frames[currentIndex];
+  useEffect(() => {
+    if (mode !== GeneratorMode.HARMONIC) return;
+    const source = getFrameSource(currentFrame);
+    if (source?.harmonics) {
+      if (source.harmonics === harmonics.amplitudes && source.phases === harmonics.phases) return;
+      setHarmonics({ amplitudes: source.harmonics, phases: source.phases ?? new Array(source.harmonics.length).fill(0) });
     } else {
-      if (oscillatorRef.current) {
-        oscillatorRef.current.disconnect();
-        oscillatorRef.current = null;
-      }
+      setHarmonics(analyzeHarmonics(currentFrame, MAX_PARTIALS));
     }
-  }, [isPlaying, currentIndex, frames]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mode, currentFrame]);
+
+  // The vector editor picks up the shape of vector frames; on other frames it keeps the last shape
+  useEffect(() => {
+    if (mode !== GeneratorMode.VECTOR) return;
+    const shape = getFrameSource(currentFrame)?.shape;
+    if (shape && shape !== vectorPoints) setVectorPoints(shape);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mode, currentFrame]);
 
   // Transport Handlers
-  const togglePlay = async () => {
+  const resumeAudio = async () => {
     if (audioCtxRef.current?.state === 'suspended') {
       await audioCtxRef.current.resume();
     }
+  };
+
+  const togglePlay = async () => {
+    await resumeAudio();
     setIsPlaying(!isPlaying);
   };
 
-  const handleScanPlayback = () => {
-     if (scanIntervalRef.current) {
-         clearInterval(scanIntervalRef.current);
-         scanIntervalRef.current = null;
-         return;
+  // Envelope scanning gives every note its own sweep through the table
+  const startNote = (note: number) => {
+    if (!synth) return;
+    if (scanSettings.enabled && scanSettings.source === ScanSource.ENVELOPE) {
+      lastNoteOnRef.current = performance.now();
+      synth.noteOn(note, { values: buildEnvelopeCurve(scanSettings), duration: scanSettings.envelopeTime });
+    } else {
+      synth.noteOn(note);
+    }
+  };
+
+  const handleNoteOn = (note: number) => {
+    resumeAudio();
+    startNote(note);
+    setActiveNotes(prev => new Set(prev).add(note));
+  };
+
+  const handleNoteOff = (note: number) => {
+    synth?.noteOff(note);
+    setActiveNotes(prev => {
+      const next = new Set(prev);
+      next.delete(note);
+      return next;
+    });
+  };
+
+  const toggleScan = async () => {
+     if (!scanSettings.enabled) {
+         await resumeAudio();
+         scanStartRef.current = audioCtxRef.current?.currentTime ?? 0;
+         // Scanning a silent table is pointless; make sure something is sounding
+         if (activeNotes.size === 0) setIsPlaying(true);
      }
-     
-     // Simple auto-scanner
-     setIsPlaying(true);
-     scanIntervalRef.current = window.setInterval(() => {
-         setCurrentIndex(prev => (prev + 1) % frames.length);
-     }, playbackSpeed);
+     setScanSettings({ ...scanSettings, enabled: !scanSettings.enabled });
   };
-  
+
+  // History: call before an edit to make it undoable under `label`
+  const recordEdit = (label: string, coalesce: boolean = false) => {
+      setHistory(prev => recordHistory(prev, { label, frames, currentIndex, keyframes, selection: selectedFrames, time: Date.now() }, coalesce));
+  };
+
+  const restoreSnapshot = (snapshot: HistorySnapshot) => {
+      setFrames(snapshot.frames);
+      setCurrentIndex(Math.min(snapshot.currentIndex, snapshot.frames.length - 1));
+      setKeyframes(snapshot.keyframes);
+      setSelection(snapshot.selection.filter(i => i < snapshot.frames.length));
+      setSelectionAnchor(snapshot.currentIndex);
+  };
+
+  const undo = () => {
+      const result = undoHistory(history, { frames, currentIndex, keyframes, selection: selectedFrames, time: Date.now() });
+      if (!result) return;
+      setHistory(result.history);
+      restoreSnapshot(result.snapshot);
+  };
+
+  const redo = () => {
+      const result = redoHistory(history, { frames, currentIndex, keyframes, selection: selectedFrames, time: Date.now() });
+      if (!result) return;
+      setHistory(result.history);
+      restoreSnapshot(result.snapshot);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y), Ctrl+C / Ctrl+V on the frame selection; text fields keep their own
   useEffect(() => {
-      // Cleanup scan on unmount or if playback stops manually
-      if (!isPlaying && scanIntervalRef.current) {
-          clearInterval(scanIntervalRef.current);
-          scanIntervalRef.current = null;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (e.code === 'KeyZ') {
+        e.preventDefault();
+        if (e.shiftKey) shortcutActionsRef.current.redo();
+        else shortcutActionsRef.current.undo();
+      } else if (e.code === 'KeyY') {
+        e.preventDefault();
+        shortcutActionsRef.current.redo();
+      } else if (e.code === 'KeyC' && !window.getSelection()?.toString()) {
+        e.preventDefault();
+        shortcutActionsRef.current.copy();
+      } else if (e.code === 'KeyV') {
+        e.preventDefault();
+        shortcutActionsRef.current.paste();
       }
-  }, [isPlaying]);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   // Data Manipulation
   const handleWaveformChange = useCallback((newData: Float32Array) => {
@@ -140,88 +403,311 @@ const App: React.FC = () => {
     });
   }, [currentIndex]);
 
-  const addFrame = () => {
-    if (frames.length >= MAX_FRAMES) return;
-    setFrames([...frames, new Float32Array(frames[currentIndex])]);
-    setCurrentIndex(frames.length);
+  // The cycle length lives in the frames themselves, so undo, projects and imports all carry it
+  const frameSize = frames[0].length;
+
+  const changeFrameSize = (size: number) => {
+      if (size === frameSize) return;
+      recordEdit('Cycle Length');
+      setFrames(resampleTable(frames, size));
   };
-  
-  const deleteFrame = () => {
-      if (frames.length <= 1) return;
-      const newFrames = frames.filter((_, i) => i !== currentIndex);
-      setFrames(newFrames);
-      setCurrentIndex(Math.min(currentIndex, newFrames.length - 1));
+
+  // The frames timeline operations act on: the selection when it includes the current frame
+  const selectedFrames = useMemo(() => {
+    const valid = selection.filter(i => i < frames.length);
+    return valid.includes(currentIndex) ? valid : [currentIndex];
+  }, [selection, currentIndex, frames.length]);
+
+  const getTimelineState = (): TimelineState => ({ frames, currentIndex, selection: selectedFrames, keyframes });
+
+  const applyTimeline = (label: string, next: TimelineState | null) => {
+      if (!next) return;
+      recordEdit(label);
+      setFrames(next.frames);
+      setCurrentIndex(next.currentIndex);
+      setSelection(next.selection);
+      setKeyframes(next.keyframes);
+  };
+
+  const selectFrame = (index: number, selectMode: SelectMode) => {
+      const next = selectFrames(selectedFrames, selectionAnchor, index, selectMode);
+      setSelection(next);
+      if (selectMode !== 'range') setSelectionAnchor(index);
+      setCurrentIndex(next.includes(index) ? index : next[next.length - 1]);
+  };
+
+  const insertFrame = () => applyTimeline('Insert Frame', insertFrameAfter(getTimelineState(), generateSine(frameSize)));
+  const duplicateFrames = () => applyTimeline('Duplicate Frames', duplicateSelection(getTimelineState()));
+  const deleteFrames = () => applyTimeline('Delete Frames', deleteSelection(getTimelineState()));
+  const reverseFrames = () => {
+      if (selectedFrames.length > 1) applyTimeline('Reverse Frames', reverseSelection(getTimelineState()));
+  };
+  const moveFrames = (slot: number) => applyTimeline('Move Frames', moveSelection(getTimelineState(), slot));
+  // Frames are never mutated, so the clipboard can hold the buffers themselves
+  const copyFrames = () => setClipboard(selectedFrames.map(i => frames[i]));
+  // Copied before a cycle length change, the clipboard is brought to the current length on paste
+  const pasteClipboard = () => applyTimeline('Paste Frames', pasteFrames(getTimelineState(), resampleTable(clipboard, frameSize)));
+
+  shortcutActionsRef.current = { undo, redo, copy: copyFrames, paste: pasteClipboard };
+
+  const toggleKeyframe = () => {
+      recordEdit(keyframes.includes(currentIndex) ? 'Remove Keyframe' : 'Add Keyframe');
+      setKeyframes(keyframes.includes(currentIndex)
+        ? keyframes.filter(k => k !== currentIndex)
+        : [...keyframes, currentIndex].sort((a, b) => a - b));
   };
 
   const handleFormulaGenerate = () => {
-      const newData = generateFromFormula(formula);
+      if (formulaError) return;
+      if (formulaTable.scope !== FormulaScope.FRAME) {
+          handleFormulaTableGenerate();
+          return;
+      }
+      const newData = generateFromFormula(formula, frameSize);
+      setFrameSource(newData, { mode: GeneratorMode.MATH, formula });
+      recordEdit('Formula');
       handleWaveformChange(newData);
   };
 
-  const handleHarmonicChange = (harmonics: number[]) => {
+  const handleFormulaTableGenerate = () => {
+      const [start, end] = getFormulaTableRange();
+      const generated = generateTableFromFormula(formula, start, end, frameSize);
+      generated.forEach(frame => setFrameSource(frame, { mode: GeneratorMode.MATH, formula }));
+      recordEdit('Table Formula');
+      if (formulaTable.scope === FormulaScope.TABLE) {
+          setFrames(generated);
+          setCurrentIndex(Math.min(currentIndex, generated.length - 1));
+          setKeyframes([]);
+          setSelection([]);
+      } else {
+          setFrames(frames.map((frame, i) => (i >= start && i <= end ? generated[i - start] : frame)));
+      }
+  };
+
+  const handleHarmonicChange = (spectrum: HarmonicSpectrum) => {
+      setHarmonics(spectrum);
       if (mode === GeneratorMode.HARMONIC) {
-          const newData = generateFromHarmonics(harmonics);
+          // Lane frames keep the level the lanes gave them across the table instead of being normalized
+          const fromLanes = getFrameSource(frames[currentIndex])?.mode === GeneratorMode.LANES;
+          const newData = fromLanes
+            ? synthesizeHarmonics(spectrum.amplitudes, spectrum.phases, frameSize)
+            : generateFromHarmonics(spectrum.amplitudes, spectrum.phases, frameSize);
+          setFrameSource(newData, { mode: fromLanes ? GeneratorMode.LANES : GeneratorMode.HARMONIC, harmonics: spectrum.amplitudes, phases: spectrum.phases });
+          recordEdit('Harmonics', true);
           handleWaveformChange(newData);
       }
   };
   
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (!file) return;
-      
+  const handleVectorChange = (points: VectorPoint[]) => {
+      setVectorPoints(points);
+      recordEdit('Vector Shape', true);
+      handleWaveformChange(renderShape(points, frameSize));
+  };
+
+  const handleLaneGenerate = () => {
+      const generated = renderLaneTable(laneSettings.lanes, laneSettings.frameCount, frameSize);
+      recordEdit('Harmonic Lanes');
+      setFrames(generated);
+      setCurrentIndex(Math.min(currentIndex, generated.length - 1));
+      setKeyframes([]);
+      setSelection([]);
+  };
+  
+  const handleImageFile = async (file: File) => {
+      // Images exported by WaveForge say how they were written; read them back the same way
+      const metadata = readTableImageMetadata(await file.arrayBuffer());
       const reader = new FileReader();
       reader.onload = (event) => {
+          const url = event.target?.result as string;
           const img = new Image();
           img.onload = () => {
-              // Create a temp canvas to read pixels
+              // Read the pixels through a temp canvas, scaled down if the image is huge
               const cvs = document.createElement('canvas');
-              cvs.width = FRAME_SIZE;
-              cvs.height = 1; // Collapse to 1 line for simple brightness mapping
+              cvs.width = Math.max(1, Math.min(MAX_IMAGE_WIDTH, img.width));
+              cvs.height = Math.max(1, Math.min(MAX_IMAGE_HEIGHT, img.height));
               const ctx = cvs.getContext('2d');
               if (!ctx) return;
               
-              ctx.drawImage(img, 0, 0, FRAME_SIZE, 1);
-              const imgData = ctx.getImageData(0, 0, FRAME_SIZE, 1);
-              const px = imgData.data;
-              
-              const newWave = new Float32Array(FRAME_SIZE);
-              for(let i=0; i<FRAME_SIZE; i++) {
-                  // Grayscale average
-                  const r = px[i*4];
-                  const g = px[i*4+1];
-                  const b = px[i*4+2];
-                  const brightness = (r+g+b) / 3;
-                  // Map 0..255 to -1..1
-                  newWave[i] = (brightness / 127.5) - 1;
+              ctx.drawImage(img, 0, 0, cvs.width, cvs.height);
+              setImagePixels(ctx.getImageData(0, 0, cvs.width, cvs.height));
+              setImageUrl(url);
+              if (metadata) {
+                  setImageSettings({
+                    ...imageSettings,
+                    mapping: metadata.content === ImageExportContent.SPECTRUM ? ImageMapping.SPECTROGRAM : ImageMapping.ROWS,
+                    channel: metadata.encoding === ImageEncoding.RG16 ? ImageChannel.PACKED16 : ImageChannel.LUMINANCE,
+                    invert: false,
+                    contrast: 1,
+                    frameCount: cvs.height,
+                    harmonicCount: cvs.width,
+                  });
               }
-              handleWaveformChange(normalizeBuffer(newWave));
           };
-          img.src = event.target?.result as string;
+          img.onerror = () => setErrorMessage('Could not read that image.');
+          img.src = url;
       };
       reader.readAsDataURL(file);
   };
 
+  const handleImageApply = () => {
+      if (!imagePixels) return;
+      const generated = imageToFrames(imagePixels, imageSettings, frameSize);
+      if (imageSettings.mapping === ImageMapping.SINGLE) {
+          recordEdit('Image');
+          handleWaveformChange(generated[0]);
+          return;
+      }
+      recordEdit('Image Table');
+      setFrames(generated);
+      setCurrentIndex(Math.min(currentIndex, generated.length - 1));
+      setKeyframes([]);
+      setSelection([]);
+  };
+
+  const handleSampleFile = async (file: File) => {
+      try {
+          setSample(await decodeAudioSample(await file.arrayBuffer(), file.name));
+          setSampleSettings({ ...sampleSettings, start: 0, end: 1, pitch: null });
+          setErrorMessage(null);
+      } catch (err) {
+          setErrorMessage(`Could not load ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+  };
+
+  const handleSampleApply = () => {
+      if (!sample || sampleFrequency === null) return;
+      try {
+          const generated = resynthesizeSample(sample, sampleSettings, sampleFrequency, frameSize);
+          recordEdit('Sample');
+          setFrames(generated);
+          setCurrentIndex(Math.min(currentIndex, generated.length - 1));
+          setKeyframes([]);
+          setSelection([]);
+      } catch (err) {
+          setErrorMessage(`Could not resynthesize: ${err instanceof Error ? err.message : String(err)}`);
+      }
+  };
+
+  const handleProcess = () => {
+      recordEdit('Process');
+      setFrames(processFrames(frames, processSettings, getProcessFrames(processSettings, frames.length, currentIndex, selectedFrames)));
+  };
+
+  // A multi-frame selection limits the morph to its span, still honouring keyframes inside it;
+  // without either this is the classic first-to-last morph
+  const morphSpan: [number, number] | null = selectedFrames.length > 1
+    ? [selectedFrames[0], selectedFrames[selectedFrames.length - 1]]
+    : null;
+
   const morphBetween = () => {
-      // Morph whole table from first to last frame
       if (frames.length < 3) return;
-      const first = frames[0];
-      const last = frames[frames.length-1];
-      const count = frames.length;
-      
-      const newFrames = frames.map((_, i) => {
-          if (i === 0) return first;
-          if (i === count-1) return last;
-          return interpolateFrames(first, last, i / (count - 1));
-      });
-      setFrames(newFrames);
+      const keys = morphSpan
+        ? [morphSpan[0], ...keyframes.filter(k => k > morphSpan[0] && k < morphSpan[1]), morphSpan[1]]
+        : keyframes.length >= 2 ? keyframes : [0, frames.length - 1];
+      recordEdit('Morph');
+      setFrames(fillBetweenKeyframes(frames, keys, morphSettings));
+  };
+
+  const resizeTable = () => {
+      if (resizeSettings.frameCount === frames.length) return;
+      applyTimeline('Resize Table', resizeTimeline(getTimelineState(), resizeFrames(frames, resizeSettings)));
+  };
+
+  const handleTableImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // Reset so picking the same file again still fires onChange
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+          const result = parseWavetableFile(await file.arrayBuffer(), { fallbackCycleLength: importCycleLength, frameSize });
+          recordEdit('Import');
+          setFrames(result.frames);
+          setCurrentIndex(0);
+          setKeyframes([]);
+          setSelection([]);
+          setErrorMessage(result.totalCycles > MAX_FRAMES
+            ? `${file.name} holds ${result.totalCycles} frames; only the first ${MAX_FRAMES} were loaded.`
+            : null);
+      } catch (err) {
+          setErrorMessage(`Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+  };
+
+  const getProject = (): WaveforgeProject => ({ frames, currentIndex, formula, harmonics, keyframes, morphSettings, laneSettings, exportSettings });
+
+  const applyProject = (project: WaveforgeProject) => {
+      setFrames(project.frames);
+      setCurrentIndex(project.currentIndex);
+      setFormula(project.formula);
+      if (project.harmonics.amplitudes.length) setHarmonics(project.harmonics);
+      setKeyframes(project.keyframes);
+      setSelection([]);
+      setMorphSettings(project.morphSettings);
+      setLaneSettings(project.laneSettings);
+      setExportSettings(project.exportSettings);
+  };
+
+  const saveProject = async () => {
+      try {
+          saveBlob(await exportProjectFile(getProject()), `wavetable${PROJECT_EXTENSION}`);
+      } catch (err) {
+          setErrorMessage(`Could not save project: ${err instanceof Error ? err.message : String(err)}`);
+      }
   };
 
-  const downloadWav = () => {
-      const blob = exportWavetableToWav(frames);
+  const openProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+          const project = await parseProjectFile(await file.arrayBuffer());
+          recordEdit('Open Project');
+          applyProject(project);
+          setErrorMessage(null);
+      } catch (err) {
+          setErrorMessage(`Could not open ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+  };
+
+  const downloadTable = async () => {
+      const table = exportSettings.bandLimitHarmonics !== null
+        ? bandLimitTable(frames, exportSettings.bandLimitHarmonics)
+        : frames;
+      let blob: Blob;
+      switch (exportSettings.format) {
+          case ExportFormat.SURGE_WT:
+              blob = exportWavetableToSurgeWt(table, exportSettings.surgeInt16);
+              break;
+          case ExportFormat.VITAL:
+              blob = exportWavetableToVital(table, 'WaveForge Table');
+              break;
+          case ExportFormat.PNG:
+              blob = await exportWavetableToPng(table, exportSettings.image);
+              break;
+          default:
+              blob = exportWavetableToWav(table, exportSettings.wav);
+      }
+      saveBlob(blob, `wavetable${getExportExtension(exportSettings.format)}`);
+      setShowExport(false);
+  };
+
+  const downloadPreviewRender = () => {
+      try {
+          const blob = exportPreviewRenderToWav(frames, exportSettings.render, synthSettings, exportSettings.wav);
+          saveBlob(blob, 'wavetable-preview.wav');
+          setShowExport(false);
+      } catch (err) {
+          setErrorMessage(`Could not render preview: ${err instanceof Error ? err.message : String(err)}`);
+      }
+  };
+
+  const saveBlob = (blob: Blob, filename: string) => {
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = 'wavetable.wav';
+      a.download = filename;
       a.click();
       URL.revokeObjectURL(url);
   };
@@ -244,30 +730,118 @@ const App: React.FC = () => {
            <div className="flex items-center bg-gray-900 rounded-lg p-1 border border-gray-800">
                <button 
                  onClick={togglePlay}
-                 className={`p-2 rounded-md transition ${isPlaying && !scanIntervalRef.current ? 'bg-cyan-600 text-white' : 'hover:bg-gray-800 text-gray-400'}`}
+                 className={`p-2 rounded-md transition ${isPlaying ? 'bg-cyan-600 text-white' : 'hover:bg-gray-800 text-gray-400'}`}
                  title="Play Tone"
                >
-                   {isPlaying && !scanIntervalRef.current ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" />}
+                   {isPlaying ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" />}
                </button>
                <div className="w-px h-6 bg-gray-800 mx-1"></div>
                <button 
-                 onClick={handleScanPlayback}
-                 className={`p-2 rounded-md transition ${scanIntervalRef.current ? 'bg-purple-600 text-white animate-pulse' : 'hover:bg-gray-800 text-gray-400'}`}
+                 onClick={toggleScan}
+                 className={`p-2 rounded-md transition ${scanSettings.enabled ? 'bg-purple-600 text-white animate-pulse' : 'hover:bg-gray-800 text-gray-400'}`}
                  title="Scan Table"
                >
                    <Layers size={18} />
                </button>
            </div>
            
-           <button 
-             onClick={downloadWav}
-             className="flex items-center gap-2 bg-gray-100 text-gray-900 px-4 py-2 rounded-lg font-medium hover:bg-white transition shadow-lg hover:shadow-cyan-500/20"
+           <div className="flex items-center bg-gray-900 rounded-lg p-1 border border-gray-800">
+               <button
+                 onClick={undo}
+                 disabled={history.past.length === 0}
+                 className="p-2 rounded-md transition hover:bg-gray-800 text-gray-400 disabled:opacity-30 disabled:hover:bg-transparent"
+                 title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+               >
+                   <Undo2 size={18} />
+               </button>
+               <button
+                 onClick={redo}
+                 disabled={history.future.length === 0}
+                 className="p-2 rounded-md transition hover:bg-gray-800 text-gray-400 disabled:opacity-30 disabled:hover:bg-transparent"
+                 title={history.future.length ? `Redo ${history.future[history.future.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+               >
+                   <Redo2 size={18} />
+               </button>
+           </div>
+
+           <div className="flex items-center bg-gray-900 rounded-lg p-1 border border-gray-800">
+               <label
+                 className="p-2 rounded-md transition hover:bg-gray-800 text-gray-400 cursor-pointer"
+                 title={`Open project (${PROJECT_EXTENSION})`}
+               >
+                   <FolderOpen size={18} />
+                   <input type="file" className="hidden" accept={`${PROJECT_EXTENSION},application/json,application/gzip`} onChange={openProject} />
+               </label>
+               <button
+                 onClick={saveProject}
+                 className="p-2 rounded-md transition hover:bg-gray-800 text-gray-400"
+                 title={`Save project (${PROJECT_EXTENSION}) with generator settings`}
+               >
+                   <Save size={18} />
+               </button>
+           </div>
+
+           <label
+             className="flex items-center gap-2 bg-gray-900 rounded-lg border border-gray-800 pl-3 text-xs text-gray-500"
+             title="Samples per frame. Changing it resamples every frame."
            >
-             <Download size={18} /> Export .WAV
-           </button>
+               Cycle
+               <select
+                 value={frameSize}
+                 onChange={(e) => changeFrameSize(parseInt(e.target.value))}
+                 className="bg-transparent text-xs text-gray-300 px-2 py-2 focus:outline-none"
+               >
+                   {CYCLE_LENGTHS.map(len => (
+                       <option key={len} value={len} className="bg-gray-900">{len}</option>
+                   ))}
+               </select>
+           </label>
+
+           <div className="flex items-center bg-gray-900 rounded-lg border border-gray-800">
+               <label
+                 className="flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:text-white cursor-pointer transition"
+                 title="Import a wavetable (.wav, Surge .wt, Vital)"
+               >
+                   <Upload size={16} /> Import
+                   <input type="file" className="hidden" accept=".wav,.wt,.vitaltable,.json,audio/wav,audio/x-wav" onChange={handleTableImport} />
+               </label>
+               <select
+                 value={importCycleLength}
+                 onChange={(e) => setImportCycleLength(parseInt(e.target.value))}
+                 className="bg-transparent text-xs text-gray-400 border-l border-gray-800 px-2 py-2 focus:outline-none"
+                 title="Cycle length for files without Serum 'clm ' metadata"
+               >
+                   {CYCLE_LENGTHS.map(len => (
+                       <option key={len} value={len} className="bg-gray-900">{len}</option>
+                   ))}
+               </select>
+           </div>
+
+           <div className="relative">
+               <button 
+                 onClick={() => setShowExport(!showExport)}
+                 className="flex items-center gap-2 bg-gray-100 text-gray-900 px-4 py-2 rounded-lg font-medium hover:bg-white transition shadow-lg hover:shadow-cyan-500/20"
+               >
+                 <Download size={18} /> Export
+               </button>
+               {showExport && (
+                 <div className="absolute right-0 top-full mt-2 z-20">
+                     <ExportPanel settings={exportSettings} onChange={setExportSettings} onExport={downloadTable} onRender={downloadPreviewRender} />
+                 </div>
+               )}
+           </div>
         </div>
       </header>
 
+      {errorMessage && (
+        <div className="flex justify-between items-center mb-6 px-4 py-2 bg-red-900/30 border border-red-500/40 rounded-lg text-sm text-red-200">
+            <span>{errorMessage}</span>
+            <button onClick={() => setErrorMessage(null)} className="text-red-300 hover:text-white transition" title="Dismiss">
+                <X size={16} />
+            </button>
+        </div>
+      )}
+
       <main className="flex-1 grid grid-cols-1 lg:grid-cols-12 gap-6">
         
         {/* Left Column: Visualizers */}
@@ -279,12 +853,14 @@ const App: React.FC = () => {
                   <h2 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
                     <Activity size={14} /> FRAME {currentIndex + 1} / {frames.length}
                   </h2>
-                  <div className="text-xs text-gray-500 font-mono">2048 SAMPLES • 32-BIT FLOAT</div>
+                  <div className="text-xs text-gray-500 font-mono">{frameSize} SAMPLES • 32-BIT FLOAT</div>
               </div>
               <WaveformCanvas 
                 data={frames[currentIndex]} 
                 onChange={handleWaveformChange} 
+                onStrokeStart={() => recordEdit('Draw')}
                 isActive={mode === GeneratorMode.DRAW}
+                settings={drawSettings}
               />
            </section>
 
@@ -294,17 +870,80 @@ const App: React.FC = () => {
                   <h2 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
                     <Layers size={14} /> SPECTRAL VIEW
                   </h2>
+                  <div className="flex items-center gap-2 text-xs">
+                     {viewMode === ViewMode.SPECTRUM && (
+                       <>
+                         <label className="text-gray-500">H</label>
+                         <input
+                           type="number"
+                           min={1}
+                           max={harmonicRange[1]}
+                           value={harmonicRange[0]}
+                           onChange={(e) => setHarmonicRange([Math.max(1, parseInt(e.target.value) || 1), harmonicRange[1]])}
+                           className="w-14 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-gray-300 focus:outline-none focus:border-cyan-500"
+                           title="Lowest harmonic shown"
+                         />
+                         <span className="text-gray-600">–</span>
+                         <input
+                           type="number"
+                           min={harmonicRange[0]}
+                           max={frameSize / 2}
+                           value={harmonicRange[1]}
+                           onChange={(e) => setHarmonicRange([harmonicRange[0], Math.min(frameSize / 2, parseInt(e.target.value) || 1)])}
+                           className="w-14 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-gray-300 focus:outline-none focus:border-cyan-500"
+                           title="Highest harmonic shown"
+                         />
+                         <select
+                           value={spectrumStyle}
+                           onChange={(e) => setSpectrumStyle(e.target.value as SpectrumStyle)}
+                           className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-gray-300 focus:outline-none"
+                         >
+                           <option value={SpectrumStyle.WATERFALL}>Waterfall</option>
+                           <option value={SpectrumStyle.HEATMAP}>Heatmap</option>
+                         </select>
+                       </>
+                     )}
+                     <div className="flex bg-gray-900 rounded border border-gray-700 overflow-hidden">
+                        {[
+                          { id: ViewMode.WAVEFORM, label: 'Wave' },
+                          { id: ViewMode.SPECTRUM, label: 'Spectrum' },
+                        ].map(item => (
+                          <button
+                            key={item.id}
+                            onClick={() => setViewMode(item.id)}
+                            className={`px-2 py-0.5 transition ${viewMode === item.id ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                          >
+                            {item.label}
+                          </button>
+                        ))}
+                     </div>
+                  </div>
                </div>
                <Wavetable3D 
                  frames={frames} 
                  currentIndex={currentIndex} 
                  onSelectFrame={setCurrentIndex}
+                 viewMode={viewMode}
+                 spectrumStyle={spectrumStyle}
+                 harmonicRange={harmonicRange}
+                 playhead={scanPlayhead}
+                 previewFrames={formulaPreview ?? lanePreview ?? imagePreview ?? samplePreview}
                />
            </section>
 
            {/* Timeline / Frame Strip */}
            <section className="bg-gray-900 p-4 rounded-lg border border-gray-800">
-              <div className="flex items-center gap-2 mb-2">
+              <div className="relative flex items-center gap-2 mb-2">
+                 {scanPlayhead && <ScanPlayhead getPosition={scanPlayhead} />}
+                 {keyframes.map(k => (
+                   <button
+                     key={k}
+                     onClick={() => setCurrentIndex(k)}
+                     className={`absolute -top-2.5 w-2.5 h-2.5 rotate-45 border transition ${k === currentIndex ? 'bg-amber-300 border-amber-200' : 'bg-amber-500/70 border-amber-600 hover:bg-amber-400'}`}
+                     style={{ left: `calc(${frames.length > 1 ? (k / (frames.length - 1)) * 100 : 0}% - 5px)` }}
+                     title={`Keyframe ${k + 1}`}
+                   />
+                 ))}
                  <input 
                    type="range" 
                    min="0" 
@@ -314,22 +953,90 @@ const App: React.FC = () => {
                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
                  />
               </div>
+              <FrameStrip
+                frames={frames}
+                currentIndex={currentIndex}
+                selection={selectedFrames}
+                keyframes={keyframes}
+                onSelect={selectFrame}
+                onMove={moveFrames}
+              />
               <div className="flex justify-between items-center">
-                 <div className="flex gap-2">
-                    <button onClick={addFrame} className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-gray-700 px-3 py-1 rounded border border-gray-700 transition">
-                        <Plus size={14}/> Add Frame
+                 <div className="flex flex-wrap gap-2">
+                    <button onClick={insertFrame} className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-gray-700 px-3 py-1 rounded border border-gray-700 transition" title="Insert a sine frame after the current one">
+                        <Plus size={14}/> Insert
                     </button>
-                    <button onClick={() => setFrames([...frames, new Float32Array(frames[currentIndex])])} className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-gray-700 px-3 py-1 rounded border border-gray-700 transition">
+                    <button onClick={duplicateFrames} className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-gray-700 px-3 py-1 rounded border border-gray-700 transition">
                         <Copy size={14}/> Duplicate
                     </button>
-                    <button onClick={deleteFrame} className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-red-900/30 text-red-400 border border-gray-700 px-3 py-1 rounded transition">
+                    <button onClick={reverseFrames} disabled={selectedFrames.length < 2} className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-gray-700 px-3 py-1 rounded border border-gray-700 transition disabled:opacity-40" title="Reverse the order of the selected frames">
+                        <ArrowLeftRight size={14}/> Reverse
+                    </button>
+                    <button onClick={copyFrames} className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-gray-700 px-3 py-1 rounded border border-gray-700 transition" title="Copy (Ctrl+C)">
+                        <ClipboardCopy size={14}/>
+                    </button>
+                    <button onClick={pasteClipboard} disabled={clipboard.length === 0} className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-gray-700 px-3 py-1 rounded border border-gray-700 transition disabled:opacity-40" title={`Paste ${clipboard.length} frame(s) after the selection (Ctrl+V)`}>
+                        <ClipboardPaste size={14}/>
+                    </button>
+                    <button onClick={deleteFrames} disabled={selectedFrames.length >= frames.length} className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-red-900/30 text-red-400 border border-gray-700 px-3 py-1 rounded transition disabled:opacity-40">
                         <Trash2 size={14}/> Delete
                     </button>
+                    <button
+                      onClick={toggleKeyframe}
+                      className={`flex items-center gap-1 text-xs px-3 py-1 rounded border transition ${keyframes.includes(currentIndex) ? 'bg-amber-900/30 border-amber-700 text-amber-300' : 'bg-gray-800 hover:bg-gray-700 border-gray-700'}`}
+                      title="Mark this frame as a morph keyframe"
+                    >
+                        <Diamond size={14}/> Keyframe
+                    </button>
                  </div>
-                 <button onClick={morphBetween} className="text-xs text-purple-400 hover:text-purple-300 transition font-medium">
-                     Morph All (Linear)
+                 {selectedFrames.length > 1 && (
+                   <span className="text-xs font-mono text-gray-500">{selectedFrames.length} selected</span>
+                 )}
+              </div>
+              <MorphPanel
+                settings={morphSettings}
+                onChange={setMorphSettings}
+                keyframeCount={keyframes.length}
+                span={morphSpan}
+                onMorph={morphBetween}
+              />
+              <ResizePanel
+                settings={resizeSettings}
+                onChange={setResizeSettings}
+                frameCount={frames.length}
+                onResize={resizeTable}
+              />
+           </section>
+
+           {/* Table Scan */}
+           <section className="bg-gray-900 p-4 rounded-lg border border-gray-800">
+              <div className="flex justify-between items-center mb-3">
+                 <h2 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
+                   <Layers size={14} /> TABLE SCAN
+                 </h2>
+                 <button
+                   onClick={toggleScan}
+                   className={`text-xs px-3 py-1 rounded border transition ${scanSettings.enabled ? 'bg-purple-600 border-purple-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                 >
+                   {scanSettings.enabled ? 'Scanning' : 'Off'}
                  </button>
               </div>
+              <ScanPanel settings={scanSettings} onChange={setScanSettings} />
+           </section>
+
+           {/* Preview Keyboard */}
+           <section className="bg-gray-900 p-4 rounded-lg border border-gray-800">
+              <h2 className="text-sm font-semibold text-gray-400 flex items-center gap-2 mb-3">
+                <Music size={14} /> PREVIEW KEYBOARD
+                <span className="text-xs font-normal text-gray-600">A–; to play, Z/X octave</span>
+              </h2>
+              <PreviewKeyboard
+                settings={synthSettings}
+                onSettingsChange={setSynthSettings}
+                activeNotes={activeNotes}
+                onNoteOn={handleNoteOn}
+                onNoteOff={handleNoteOff}
+              />
            </section>
         </div>
 
@@ -337,12 +1044,15 @@ const App: React.FC = () => {
         <div className="lg:col-span-4 flex flex-col gap-6">
            
            {/* Generator Switcher */}
-           <div className="grid grid-cols-4 gap-1 bg-gray-900 p-1 rounded-lg border border-gray-800">
+           <div className="grid grid-cols-7 gap-1 bg-gray-900 p-1 rounded-lg border border-gray-800">
               {[
                 { id: GeneratorMode.DRAW, icon: Activity, label: 'Draw' },
+                { id: GeneratorMode.VECTOR, icon: Spline, label: 'Vector' },
                 { id: GeneratorMode.HARMONIC, icon: Layers, label: 'Harm' },
+                { id: GeneratorMode.LANES, icon: SlidersHorizontal, label: 'Lanes' },
                 { id: GeneratorMode.MATH, icon: Wand2, label: 'Math' },
                 { id: GeneratorMode.IMAGE, icon: ImageIcon, label: 'Img' },
+                { id: GeneratorMode.SAMPLE, icon: AudioWaveform, label: 'Audio' },
               ].map((item) => (
                 <button
                   key={item.id}
@@ -365,17 +1075,41 @@ const App: React.FC = () => {
                      Draw directly on the main waveform canvas. 
                      The brush applies smoothing automatically to prevent aliasing artifacts.
                    </p>
+                   <DrawToolbar settings={drawSettings} onChange={setDrawSettings} />
                    <div className="p-4 bg-blue-900/20 border border-blue-500/30 rounded-lg text-sm text-blue-200">
                       Tip: Click and drag on the top canvas to shape the sound.
                    </div>
                 </div>
               )}
 
+              {mode === GeneratorMode.VECTOR && (
+                 <div className="space-y-4">
+                    <h3 className="text-lg font-medium text-white">Vector Shape</h3>
+                    <p className="text-sm text-gray-400">Build the frame from breakpoints joined by lines, curves, steps or sine segments. The shape is kept with the frame, so it stays editable and can morph point by point.</p>
+                    <VectorEditor points={vectorPoints} onChange={handleVectorChange} />
+                 </div>
+              )}
+
               {mode === GeneratorMode.HARMONIC && (
                  <div className="space-y-4">
                     <h3 className="text-lg font-medium text-white">Additive Synthesis</h3>
-                    <p className="text-sm text-gray-400">Adjust harmonic partials to shape the timbre.</p>
-                    <HarmonicEditor onChange={handleHarmonicChange} />
+                    <p className="text-sm text-gray-400">Adjust harmonic partials to shape the timbre. The editor starts from the current frame's spectrum.</p>
+                    <HarmonicEditor spectrum={harmonics} onChange={handleHarmonicChange} />
+                 </div>
+              )}
+
+              {mode === GeneratorMode.LANES && (
+                 <div className="space-y-4">
+                    <h3 className="text-lg font-medium text-white">Harmonic Automation</h3>
+                    <p className="text-sm text-gray-400">Give each harmonic or band of harmonics its own level envelope across the table, then render every frame additively.</p>
+                    <HarmonicLaneEditor settings={laneSettings} onChange={setLaneSettings} />
+                    <p className="text-xs text-gray-500">Previewing in the spectral view; nothing changes until you generate.</p>
+                    <button
+                      onClick={handleLaneGenerate}
+                      className="w-full bg-purple-600 hover:bg-purple-500 text-white font-bold py-2 rounded-lg transition"
+                    >
+                       Generate Table
+                    </button>
                  </div>
               )}
 
@@ -383,24 +1117,95 @@ const App: React.FC = () => {
                   <div className="space-y-4">
                      <h3 className="text-lg font-medium text-white">Formula Parser</h3>
                      <p className="text-sm text-gray-400">
-                       Variables: <code>x</code> (0..2π), <code>t</code> (0..1), <code>i</code> (sample index).
+                       Variables: <code>x</code> (0..2π), <code>t</code> (0..1), <code>i</code> (sample index), <code>n</code> (frame size),
+                       and when writing a table or range <code>f</code> (frame index) and <code>p</code> (0..1 through the frames).
+                       Define your own with <code>a = 3</code> on a line before the result.
                      </p>
                      <div className="space-y-2">
-                        <label className="text-xs font-bold text-gray-500">JAVASCRIPT EXPRESSION</label>
+                        <label className="text-xs font-bold text-gray-500">EXPRESSION</label>
                         <textarea 
                           value={formula}
                           onChange={(e) => setFormula(e.target.value)}
-                          className="w-full bg-gray-950 border border-gray-700 rounded-lg p-3 font-mono text-sm text-green-400 focus:outline-none focus:border-green-500 h-32"
+                          spellCheck={false}
+                          className={`w-full bg-gray-950 border rounded-lg p-3 font-mono text-sm text-green-400 focus:outline-none h-32 ${formulaError ? 'border-red-700 focus:border-red-500' : 'border-gray-700 focus:border-green-500'}`}
                         />
+                        {formulaError && (
+                          <div className="text-xs font-mono bg-red-950/40 border border-red-900 rounded-lg p-2 text-red-300 overflow-x-auto">
+                            <pre className="text-gray-400">{formula.split('\n')[formulaError.line - 1]}</pre>
+                            <pre className="text-red-400">{' '.repeat(formulaError.column - 1)}^</pre>
+                            <div className="mt-1">Line {formulaError.line}, column {formulaError.column}: {formulaError.message}</div>
+                          </div>
+                        )}
+                        <label className="text-xs font-bold text-gray-500 block pt-2">WRITE TO</label>
+                        <div className="grid grid-cols-3 gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+                          {[
+                            { scope: FormulaScope.FRAME, label: 'This Frame' },
+                            { scope: FormulaScope.TABLE, label: 'New Table' },
+                            { scope: FormulaScope.RANGE, label: 'Range' },
+                          ].map(item => (
+                            <button
+                              key={item.scope}
+                              onClick={() => setFormulaTable(item.scope === FormulaScope.RANGE && formulaTable.scope !== FormulaScope.RANGE
+                                ? { ...formulaTable, scope: item.scope, ...(selectedFrames.length > 1
+                                    ? { rangeStart: selectedFrames[0], rangeEnd: selectedFrames[selectedFrames.length - 1] }
+                                    : { rangeStart: 0, rangeEnd: frames.length - 1 }) }
+                                : { ...formulaTable, scope: item.scope })}
+                              className={`py-1 rounded-md text-xs transition ${formulaTable.scope === item.scope ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                            >
+                              {item.label}
+                            </button>
+                          ))}
+                        </div>
+                        {formulaTable.scope === FormulaScope.TABLE && (
+                          <label className="flex items-center justify-between text-xs text-gray-400">
+                            Frames
+                            <input
+                              type="number"
+                              min={1}
+                              max={MAX_FRAMES}
+                              value={formulaTable.frameCount}
+                              onChange={(e) => setFormulaTable({ ...formulaTable, frameCount: Math.max(1, Math.min(MAX_FRAMES, parseInt(e.target.value) || 1)) })}
+                              className="w-20 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500"
+                            />
+                          </label>
+                        )}
+                        {formulaTable.scope === FormulaScope.RANGE && (
+                          <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                            Frames
+                            <input
+                              type="number"
+                              min={1}
+                              max={frames.length}
+                              value={formulaTable.rangeStart + 1}
+                              onChange={(e) => setFormulaTable({ ...formulaTable, rangeStart: Math.max(0, Math.min(frames.length - 1, (parseInt(e.target.value) || 1) - 1)) })}
+                              className="w-16 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500"
+                            />
+                            to
+                            <input
+                              type="number"
+                              min={1}
+                              max={frames.length}
+                              value={formulaTable.rangeEnd + 1}
+                              onChange={(e) => setFormulaTable({ ...formulaTable, rangeEnd: Math.max(0, Math.min(frames.length - 1, (parseInt(e.target.value) || 1) - 1)) })}
+                              className="w-16 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500"
+                            />
+                          </div>
+                        )}
+                        {formulaPreview && (
+                          <p className="text-xs text-gray-500">Previewing in the spectral view; nothing changes until you generate.</p>
+                        )}
                         <button 
                           onClick={handleFormulaGenerate}
-                          className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-2 rounded-lg transition"
+                          disabled={!!formulaError}
+                          className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-2 rounded-lg transition disabled:opacity-40 disabled:hover:bg-green-600"
                         >
-                           Generate Waveform
+                           {formulaTable.scope === FormulaScope.FRAME ? 'Generate Waveform' : 'Generate Table'}
                         </button>
                      </div>
-                     <div className="text-xs text-gray-500">
-                        Try: <code>Math.sin(x) * Math.random()</code>
+                     <div className="text-xs text-gray-500 space-y-1">
+                        <div>Try: <code>sin(x) * (1 + noise(x * 8) * 0.2)</code> or, for a table, <code>sin(x + p * 4 * sin(x))</code></div>
+                        <div>Operators: <code>+ - * / % ^</code>, comparisons, <code>&amp;&amp; || !</code>, <code>c ? a : b</code>. Constants: <code>pi tau e</code>.</div>
+                        <div>Functions: <code>{getExpressionFunctionNames().join(' ')}</code></div>
                      </div>
                   </div>
               )}
@@ -409,18 +1214,43 @@ const App: React.FC = () => {
                   <div className="space-y-4">
                      <h3 className="text-lg font-medium text-white">Image to Wavetable</h3>
                      <p className="text-sm text-gray-400">
-                       Converts image luminance to amplitude. Drag & drop or select a file.
+                       Turn an image into a single frame, a table of frames, or a spectrogram of harmonics.
                      </p>
-                     <label className="block w-full border-2 border-dashed border-gray-700 hover:border-cyan-500 rounded-xl p-8 text-center cursor-pointer transition group">
-                        <div className="mx-auto w-12 h-12 bg-gray-800 rounded-full flex items-center justify-center mb-3 group-hover:bg-cyan-900/30 transition">
-                           <ImageIcon className="text-gray-400 group-hover:text-cyan-400" />
-                        </div>
-                        <span className="text-sm text-gray-300 font-medium">Click to Upload Image</span>
-                        <input type="file" className="hidden" accept="image/*" onChange={handleImageUpload} />
-                     </label>
+                     <ImagePanel
+                       settings={imageSettings}
+                       onChange={setImageSettings}
+                       imageUrl={imageUrl}
+                       onFile={handleImageFile}
+                       onApply={handleImageApply}
+                     />
+                  </div>
+              )}
+
+              {mode === GeneratorMode.SAMPLE && (
+                  <div className="space-y-4">
+                     <h3 className="text-lg font-medium text-white">Sample Resynthesis</h3>
+                     <p className="text-sm text-gray-400">
+                       Build a table from a recording. The pitch is detected, the region is cut into single cycles, and evenly spaced cycles become frames.
+                     </p>
+                     <SamplePanel
+                       settings={sampleSettings}
+                       onChange={setSampleSettings}
+                       sample={sample}
+                       detectedPitch={detectedPitch}
+                       onFile={handleSampleFile}
+                       onApply={handleSampleApply}
+                     />
                   </div>
               )}
            </div>
+
+           <ProcessPanel
+             settings={processSettings}
+             onChange={setProcessSettings}
+             frameCount={frames.length}
+             selectionSize={selectedFrames.length}
+             onApply={handleProcess}
+           />
         </div>
       </main>
     </div>
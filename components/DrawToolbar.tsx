@@ -0,0 +1,126 @@
+import React from 'react';
+import { Brush, Slash, Droplet, Eraser } from 'lucide-react';
+import { DrawSettings, DrawTool, BrushFalloff, DrawSymmetry } from '../types';
+
+interface DrawToolbarProps {
+  settings: DrawSettings;
+  onChange: (settings: DrawSettings) => void;
+}
+
+const TOOLS = [
+  { value: DrawTool.BRUSH, icon: Brush, label: 'Brush' },
+  { value: DrawTool.LINE, icon: Slash, label: 'Line' },
+  { value: DrawTool.SMOOTH, icon: Droplet, label: 'Smooth' },
+  { value: DrawTool.ERASE, icon: Eraser, label: 'Erase' },
+];
+
+const FALLOFFS: { value: BrushFalloff; label: string }[] = [
+  { value: BrushFalloff.LINEAR, label: 'Linear' },
+  { value: BrushFalloff.SOFT, label: 'Soft' },
+  { value: BrushFalloff.HARD, label: 'Hard' },
+];
+
+const SYMMETRIES: { value: DrawSymmetry; label: string; hint: string }[] = [
+  { value: DrawSymmetry.NONE, label: 'Off', hint: 'Draw freely' },
+  { value: DrawSymmetry.MIRROR, label: 'Mirror', hint: 'The second half is the first half upside down: odd harmonics only' },
+  { value: DrawSymmetry.ODD, label: 'Odd', hint: 'Point-symmetric around the middle, like a sine: no DC' },
+  { value: DrawSymmetry.EVEN, label: 'Even', hint: 'Mirror-symmetric around the middle, like a cosine' },
+];
+
+const DrawToolbar: React.FC<DrawToolbarProps> = ({ settings, onChange }) => {
+  const update = <K extends keyof DrawSettings>(key: K, value: DrawSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  // The line tool draws hard-edged segments; size and falloff only shape the brushes
+  const usesBrush = settings.tool !== DrawTool.LINE;
+
+  const gridAxis = (snapKey: 'snapX' | 'snapY', gridKey: 'gridX' | 'gridY', label: string) => (
+    <label className="flex items-center gap-2 text-xs text-gray-400">
+      <input type="checkbox" checked={settings[snapKey]} onChange={(e) => update(snapKey, e.target.checked)} className="accent-cyan-500" />
+      <span className="w-20">{label}</span>
+      <input
+        type="number"
+        min={2}
+        max={64}
+        value={settings[gridKey]}
+        disabled={!settings[snapKey]}
+        onChange={(e) => update(gridKey, Math.max(2, Math.min(64, parseInt(e.target.value) || 2)))}
+        className="w-14 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-cyan-500 disabled:opacity-40"
+      />
+      divisions
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+        {TOOLS.map(item => (
+          <button
+            key={item.value}
+            onClick={() => update('tool', item.value)}
+            className={`flex flex-col items-center py-1.5 rounded-md text-xs transition ${settings.tool === item.value ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <item.icon size={14} className="mb-1" />
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {usesBrush && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-3 text-xs text-gray-400">
+            <span className="w-14">Size</span>
+            <input
+              type="range"
+              min={1}
+              max={256}
+              value={settings.brushSize}
+              onChange={(e) => update('brushSize', parseInt(e.target.value))}
+              className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+            />
+            <span className="w-8 text-right font-mono">{settings.brushSize}</span>
+          </label>
+          <div className="flex items-center gap-3 text-xs text-gray-400">
+            <span className="w-14">Falloff</span>
+            <div className="flex-1 grid grid-cols-3 gap-1">
+              {FALLOFFS.map(item => (
+                <button
+                  key={item.value}
+                  onClick={() => update('falloff', item.value)}
+                  className={`py-0.5 rounded text-xs border transition ${settings.falloff === item.value ? 'bg-gray-700 border-gray-600 text-white' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2 pt-3 border-t border-gray-800">
+        {gridAxis('snapX', 'gridX', 'Snap time')}
+        {gridAxis('snapY', 'gridY', 'Snap level')}
+      </div>
+
+      <div className="space-y-2 pt-3 border-t border-gray-800">
+        <span className="text-xs text-gray-400">Symmetry</span>
+        <div className="grid grid-cols-4 gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+          {SYMMETRIES.map(item => (
+            <button
+              key={item.value}
+              onClick={() => update('symmetry', item.value)}
+              title={item.hint}
+              className={`py-1 rounded-md text-xs transition ${settings.symmetry === item.value ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">{SYMMETRIES.find(s => s.value === settings.symmetry)?.hint}</p>
+      </div>
+    </div>
+  );
+};
+
+export default DrawToolbar;
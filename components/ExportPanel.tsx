@@ -0,0 +1,266 @@
+import React from 'react';
+import { Download, Headphones } from 'lucide-react';
+import { ExportSettings, ExportFormat, WavExportOptions, WavBitDepth, RenderSettings, ImageExportContent, ImageEncoding } from '../types';
+
+interface ExportPanelProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  onExport: () => void;
+  onRender: () => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string; extension: string }[] = [
+  { value: ExportFormat.WAV, label: 'WAV', extension: '.wav' },
+  { value: ExportFormat.SURGE_WT, label: 'Surge', extension: '.wt' },
+  { value: ExportFormat.VITAL, label: 'Vital', extension: '.vitaltable' },
+  { value: ExportFormat.PNG, label: 'PNG', extension: '.png' },
+];
+
+const BIT_DEPTHS: { value: WavBitDepth; label: string }[] = [
+  { value: 16, label: '16-bit PCM' },
+  { value: 24, label: '24-bit PCM' },
+  { value: 32, label: '32-bit Float' },
+];
+
+const SAMPLE_RATES = [44100, 48000, 88200, 96000];
+
+const BAND_LIMITS = [16, 32, 64, 128, 256, 512];
+
+export const getExportExtension = (format: ExportFormat): string => {
+  return FORMATS.find(f => f.value === format)?.extension ?? '.wav';
+};
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ settings, onChange, onExport, onRender }) => {
+  const options = settings.wav;
+  const update = <K extends keyof WavExportOptions>(key: K, value: WavExportOptions[K]) => {
+    onChange({ ...settings, wav: { ...options, [key]: value } });
+  };
+
+  const updateRender = <K extends keyof RenderSettings>(key: K, value: RenderSettings[K]) => {
+    onChange({ ...settings, render: { ...settings.render, [key]: value } });
+  };
+
+  const isFloat = options.bitDepth === 32;
+
+  return (
+    <div className="w-72 bg-gray-900 border border-gray-700 rounded-xl p-4 shadow-2xl space-y-4">
+      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Export Options</span>
+
+      <div className="space-y-1">
+        <label className="text-xs font-bold text-gray-500">FORMAT</label>
+        <div className="grid grid-cols-4 gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+          {FORMATS.map(item => (
+            <button
+              key={item.value}
+              onClick={() => onChange({ ...settings, format: item.value })}
+              className={`py-1 rounded-md text-xs transition ${settings.format === item.value ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.format === ExportFormat.WAV && (
+        <>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-gray-500">BIT DEPTH</label>
+            <div className="grid grid-cols-3 gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+              {BIT_DEPTHS.map(item => (
+                <button
+                  key={item.value}
+                  onClick={() => update('bitDepth', item.value)}
+                  className={`py-1 rounded-md text-xs transition ${options.bitDepth === item.value ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-gray-500">SAMPLE RATE</label>
+            <select
+              value={options.sampleRate}
+              onChange={(e) => update('sampleRate', parseInt(e.target.value))}
+              className="w-full bg-gray-950 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-cyan-500"
+            >
+              {SAMPLE_RATES.map(rate => (
+                <option key={rate} value={rate}>{rate} Hz</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2 text-sm text-gray-300">
+            <label className={`flex items-center gap-2 ${isFloat ? 'opacity-40' : 'cursor-pointer'}`}>
+              <input
+                type="checkbox"
+                checked={options.dither && !isFloat}
+                disabled={isFloat}
+                onChange={(e) => update('dither', e.target.checked)}
+                className="accent-cyan-500"
+              />
+              TPDF dither
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.includeClm}
+                onChange={(e) => update('includeClm', e.target.checked)}
+                className="accent-cyan-500"
+              />
+              Serum <code>clm</code> chunk
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.normalize}
+                onChange={(e) => update('normalize', e.target.checked)}
+                className="accent-cyan-500"
+              />
+              Normalize whole table
+            </label>
+          </div>
+        </>
+      )}
+
+      {settings.format === ExportFormat.SURGE_WT && (
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.surgeInt16}
+            onChange={(e) => onChange({ ...settings, surgeInt16: e.target.checked })}
+            className="accent-cyan-500"
+          />
+          Store as 16-bit integer
+        </label>
+      )}
+
+      {settings.format === ExportFormat.VITAL && (
+        <p className="text-xs text-gray-500">
+          Writes a Vital wavetable with one keyframe per frame, 2048 samples each.
+        </p>
+      )}
+
+      {settings.format === ExportFormat.PNG && (
+        <>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-gray-500">DRAW</label>
+            <div className="grid grid-cols-2 gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+              {[
+                { value: ImageExportContent.WAVEFORM, label: 'Waveforms' },
+                { value: ImageExportContent.SPECTRUM, label: 'Spectrum' },
+              ].map(item => (
+                <button
+                  key={item.value}
+                  onClick={() => onChange({ ...settings, image: { ...settings.image, content: item.value } })}
+                  className={`py-1 rounded-md text-xs transition ${settings.image.content === item.value ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-gray-500">ENCODING</label>
+            <div className="grid grid-cols-2 gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+              {[
+                { value: ImageEncoding.GRAY8, label: '8-bit Grey' },
+                { value: ImageEncoding.RG16, label: '16-bit (R+G)' },
+              ].map(item => (
+                <button
+                  key={item.value}
+                  onClick={() => onChange({ ...settings, image: { ...settings.image, encoding: item.value } })}
+                  className={`py-1 rounded-md text-xs transition ${settings.image.encoding === item.value ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            One row per frame. 16-bit images store each value in the red and green channels and open again
+            through Image mode with no audible loss; grey images are for viewing. Spectrum images keep only magnitudes.
+          </p>
+        </>
+      )}
+
+      <div className="space-y-1 pt-2 border-t border-gray-800">
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.bandLimitHarmonics !== null}
+            onChange={(e) => onChange({ ...settings, bandLimitHarmonics: e.target.checked ? 256 : null })}
+            className="accent-cyan-500"
+          />
+          Band-limit to
+          <select
+            value={settings.bandLimitHarmonics ?? 256}
+            disabled={settings.bandLimitHarmonics === null}
+            onChange={(e) => onChange({ ...settings, bandLimitHarmonics: parseInt(e.target.value) })}
+            className="bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-200 focus:outline-none disabled:opacity-40"
+          >
+            {BAND_LIMITS.map(n => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+          harmonics
+        </label>
+        <p className="text-xs text-gray-500">For synths without their own mipmapping.</p>
+      </div>
+
+      <button
+        onClick={onExport}
+        className="w-full flex items-center justify-center gap-2 bg-gray-100 text-gray-900 py-2 rounded-lg font-medium hover:bg-white transition"
+      >
+        <Download size={16} /> Download {getExportExtension(settings.format)}
+      </button>
+
+      <div className="space-y-2 pt-2 border-t border-gray-800">
+        <label className="text-xs font-bold text-gray-500">PREVIEW RENDER</label>
+        <input
+          type="text"
+          value={settings.render.sequence}
+          onChange={(e) => updateRender('sequence', e.target.value)}
+          placeholder="C2 C3+G3 - E2"
+          className="w-full bg-gray-950 border border-gray-700 rounded-lg px-2 py-1 text-sm font-mono text-gray-200 focus:outline-none focus:border-cyan-500"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1 text-[10px] text-gray-500 font-mono uppercase">
+            Note (s)
+            <input
+              type="number"
+              min={0.05}
+              max={10}
+              step={0.05}
+              value={settings.render.noteLength}
+              onChange={(e) => updateRender('noteLength', Math.max(0.05, Math.min(10, parseFloat(e.target.value) || 1)))}
+              className="bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-200 focus:outline-none"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-[10px] text-gray-500 font-mono uppercase">
+            Sweep (s)
+            <input
+              type="number"
+              min={0}
+              max={60}
+              step={0.5}
+              value={settings.render.sweepTime}
+              onChange={(e) => updateRender('sweepTime', Math.max(0, Math.min(60, parseFloat(e.target.value) || 0)))}
+              className="bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-200 focus:outline-none"
+            />
+          </label>
+        </div>
+        <p className="text-xs text-gray-500">Space-separated notes, <code>+</code> for chords, <code>-</code> for rests. Uses the keyboard's envelope and unison and the WAV export settings.</p>
+        <button
+          onClick={onRender}
+          className="w-full flex items-center justify-center gap-2 bg-gray-800 text-gray-100 py-2 rounded-lg font-medium hover:bg-gray-700 border border-gray-700 transition"
+        >
+          <Headphones size={16} /> Render preview .wav
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SelectMode } from '../utils/timeline';
+
+interface FrameStripProps {
+  frames: Float32Array[];
+  currentIndex: number;
+  selection: number[];
+  keyframes: number[];
+  onSelect: (index: number, mode: SelectMode) => void;
+  onMove: (slot: number) => void;
+}
+
+// Marks drags that started on the strip; files or text dragged in from elsewhere carry no such type
+const FRAME_DRAG_TYPE = 'application/x-waveforge-frames';
+
+const THUMB_WIDTH = 44;
+const THUMB_HEIGHT = 28;
+
+// Redraws only when its frame buffer is replaced
+const FrameThumb = React.memo(({ frame }: { frame: Float32Array }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const dpr = window.devicePixelRatio;
+    canvas.width = THUMB_WIDTH * dpr;
+    canvas.height = THUMB_HEIGHT * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+
+    ctx.strokeStyle = '#22d3ee';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = 0; x < THUMB_WIDTH; x++) {
+      const v = frame[Math.floor((x / THUMB_WIDTH) * frame.length)];
+      const y = (1 - Math.max(-1, Math.min(1, v))) * (THUMB_HEIGHT / 2);
+      if (x === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+  }, [frame]);
+
+  return <canvas ref={canvasRef} style={{ width: THUMB_WIDTH, height: THUMB_HEIGHT }} className="block pointer-events-none" />;
+});
+
+const FrameStrip: React.FC<FrameStripProps> = ({ frames, currentIndex, selection, keyframes, onSelect, onMove }) => {
+  const stripRef = useRef<HTMLDivElement>(null);
+  // Gap the dragged selection would land in, shown as an insertion bar
+  const [dropSlot, setDropSlot] = useState<number | null>(null);
+
+  // Keep the current frame in view when it changes from elsewhere (slider, 3D view, undo)
+  useEffect(() => {
+    const strip = stripRef.current;
+    const thumb = strip?.children[currentIndex] as HTMLElement | undefined;
+    if (!strip || !thumb) return;
+    if (thumb.offsetLeft < strip.scrollLeft || thumb.offsetLeft + thumb.offsetWidth > strip.scrollLeft + strip.clientWidth) {
+      strip.scrollLeft = thumb.offsetLeft - strip.clientWidth / 2;
+    }
+  }, [currentIndex]);
+
+  const handleClick = (e: React.MouseEvent, index: number) => {
+    onSelect(index, e.shiftKey ? 'range' : (e.ctrlKey || e.metaKey) ? 'toggle' : 'replace');
+  };
+
+  const handleDragStart = (e: React.DragEvent, index: number) => {
+    // Dragging an unselected frame drags just that frame
+    if (!selection.includes(index)) onSelect(index, 'replace');
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData(FRAME_DRAG_TYPE, String(index));
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (!e.dataTransfer.types.includes(FRAME_DRAG_TYPE)) return;
+    e.preventDefault();
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    setDropSlot(e.clientX < rect.left + rect.width / 2 ? index : index + 1);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(FRAME_DRAG_TYPE)) return;
+    e.preventDefault();
+    if (dropSlot !== null) onMove(dropSlot);
+    setDropSlot(null);
+  };
+
+  return (
+    <div
+      ref={stripRef}
+      className="flex gap-1 overflow-x-auto pb-2 select-none"
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropSlot(null);
+      }}
+    >
+      {frames.map((frame, i) => {
+        const isCurrent = i === currentIndex;
+        const isSelected = selection.includes(i);
+        return (
+          <div
+            key={i}
+            draggable
+            onClick={(e) => handleClick(e, i)}
+            onDragStart={(e) => handleDragStart(e, i)}
+            onDragOver={(e) => handleDragOver(e, i)}
+            onDrop={handleDrop}
+            onDragEnd={() => setDropSlot(null)}
+            className={`relative shrink-0 rounded border cursor-pointer transition ${isCurrent ? 'border-cyan-400 bg-cyan-950/40' : isSelected ? 'border-cyan-700 bg-cyan-950/20' : 'border-gray-700 bg-gray-950 hover:border-gray-500'}`}
+            title={`Frame ${i + 1}`}
+          >
+            <FrameThumb frame={frame} />
+            <span className="absolute bottom-0 left-0.5 text-[8px] font-mono text-gray-500 leading-none">{i + 1}</span>
+            {keyframes.includes(i) && (
+              <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rotate-45 bg-amber-400" />
+            )}
+            {dropSlot === i && <span className="absolute -left-1 top-0 bottom-0 w-0.5 bg-cyan-300" />}
+            {dropSlot === i + 1 && i === frames.length - 1 && <span className="absolute -right-1 top-0 bottom-0 w-0.5 bg-cyan-300" />}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FrameStrip;
@@ -1,70 +1,291 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { HarmonicSpectrum, AmplitudeScale, MAX_PARTIALS } from '../types';
 
 interface HarmonicEditorProps {
-  onChange: (harmonics: number[]) => void;
+  spectrum: HarmonicSpectrum;
+  onChange: (spectrum: HarmonicSpectrum) => void;
 }
 
-const HarmonicEditor: React.FC<HarmonicEditorProps> = ({ onChange }) => {
-  const [harmonics, setHarmonics] = useState<number[]>(new Array(16).fill(0).map((_, i) => i === 0 ? 1 : 0));
+export const DEFAULT_HARMONIC_SPECTRUM: HarmonicSpectrum = {
+  amplitudes: new Array(MAX_PARTIALS).fill(0).map((_, i) => i === 0 ? 1 : 0),
+  phases: new Array(MAX_PARTIALS).fill(0),
+};
+
+const ZOOM_LEVELS = [16, 32, 64, 128, 256, 512];
+const DB_RANGE = 60; // dB view shows -60..0 dB
+// Amplitude lane on top, phase lane below
+const PHASE_LANE_RATIO = 0.25;
+const LANE_GAP = 6;
+
+type Lane = 'amp' | 'phase';
+
+const HarmonicEditor: React.FC<HarmonicEditorProps> = ({ spectrum, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Local copy for immediate feedback while drawing; the parent only hears about it debounced
+  const [draft, setDraft] = useState<HarmonicSpectrum>(spectrum);
+  const draftRef = useRef(draft);
+  draftRef.current = draft;
+  const [visibleCount, setVisibleCount] = useState(32);
+  const [offset, setOffset] = useState(0);
+  const [scale, setScale] = useState<AmplitudeScale>(AmplitudeScale.LINEAR);
+  const [hover, setHover] = useState<number | null>(null);
+  // Lane and last point of the stroke in progress, so fast drags fill every bar in between
+  const strokeRef = useRef<{ lane: Lane; index: number; value: number } | null>(null);
+
+  // Follow the parent when it loads other values (frame selection, analysis, project open)
+  useEffect(() => {
+    setDraft(spectrum);
+  }, [spectrum]);
 
-  const updateHarmonic = (index: number, value: number) => {
-    const newHarmonics = [...harmonics];
-    newHarmonics[index] = value;
-    setHarmonics(newHarmonics);
-  };
-  
   // Debounce updates to parent
   useEffect(() => {
+    if (draft === spectrum) return;
     const timer = setTimeout(() => {
-      onChange(harmonics);
+      onChange(draft);
     }, 50);
     return () => clearTimeout(timer);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [harmonics]);
+  }, [draft]);
+
+  const partialCount = draft.amplitudes.length;
+  const visible = Math.min(visibleCount, partialCount);
+  const maxOffset = Math.max(0, partialCount - visible);
+  const start = Math.min(offset, maxOffset);
+
+  const ampToLevel = (amp: number) => {
+    if (scale === AmplitudeScale.LINEAR) return Math.max(0, Math.min(1, amp));
+    return amp > 0 ? Math.max(0, Math.min(1, 1 + (20 * Math.log10(amp)) / DB_RANGE)) : 0;
+  };
+
+  const levelToAmp = (level: number) => {
+    if (scale === AmplitudeScale.LINEAR) return level;
+    // The bottom few pixels snap to silence rather than -60 dB
+    return level < 0.02 ? 0 : 10 ** (((level - 1) * DB_RANGE) / 20);
+  };
+
+  const getLayout = (height: number) => {
+    const phaseHeight = height * PHASE_LANE_RATIO;
+    const ampHeight = height - phaseHeight - LANE_GAP;
+    return { ampHeight, phaseTop: ampHeight + LANE_GAP, phaseHeight };
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const dpr = window.devicePixelRatio;
+    canvas.width = rect.width * dpr;
+    canvas.height = rect.height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    const { width, height } = rect;
+    const { ampHeight, phaseTop, phaseHeight } = getLayout(height);
+    const barWidth = width / visible;
+    const gap = barWidth > 4 ? 1 : 0;
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, width, ampHeight);
+    ctx.fillRect(0, phaseTop, width, phaseHeight);
+
+    // dB grid lines every 12 dB
+    if (scale === AmplitudeScale.DB) {
+      ctx.strokeStyle = '#1f2937';
+      ctx.lineWidth = 1;
+      for (let db = -12; db > -DB_RANGE; db -= 12) {
+        const y = ampHeight * (-db / DB_RANGE);
+        ctx.beginPath();
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+        ctx.stroke();
+      }
+    }
+    ctx.strokeStyle = '#374151';
+    ctx.beginPath();
+    ctx.moveTo(0, phaseTop + phaseHeight / 2);
+    ctx.lineTo(width, phaseTop + phaseHeight / 2);
+    ctx.stroke();
+
+    for (let v = 0; v < visible; v++) {
+      const h = start + v;
+      const x = v * barWidth;
+      const amp = draft.amplitudes[h];
+      const isHover = hover === h;
+
+      const barHeight = ampToLevel(amp) * ampHeight;
+      ctx.fillStyle = isHover ? '#c084fc' : '#a855f7';
+      ctx.fillRect(x + gap, ampHeight - barHeight, Math.max(1, barWidth - gap * 2), barHeight);
+
+      // Phase only matters where the partial is audible
+      const phaseY = (draft.phases[h] / Math.PI) * (phaseHeight / 2);
+      ctx.fillStyle = amp > 1e-4 ? (isHover ? '#67e8f9' : '#22d3ee') : '#164e63';
+      ctx.fillRect(x + gap, phaseTop + phaseHeight / 2 - Math.max(0, phaseY), Math.max(1, barWidth - gap * 2), Math.max(1, Math.abs(phaseY)));
+    }
+
+    // Partial numbers, thinned out to stay readable
+    ctx.fillStyle = '#6b7280';
+    ctx.font = '9px monospace';
+    ctx.textAlign = 'center';
+    const labelStep = Math.max(1, Math.ceil(28 / barWidth));
+    for (let v = 0; v < visible; v += labelStep) {
+      ctx.fillText(`${start + v + 1}`, v * barWidth + barWidth / 2, 10);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draft, visible, start, scale, hover]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>, lane?: Lane) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.max(0, Math.min(rect.width - 1, e.clientX - rect.left));
+    const y = e.clientY - rect.top;
+    const { ampHeight, phaseTop, phaseHeight } = getLayout(rect.height);
+    const index = start + Math.floor((x / rect.width) * visible);
+    const pointLane: Lane = lane ?? (y > ampHeight + LANE_GAP / 2 ? 'phase' : 'amp');
+    const value = pointLane === 'amp'
+      ? levelToAmp(Math.max(0, Math.min(1, 1 - y / ampHeight)))
+      : Math.max(-1, Math.min(1, 1 - ((y - phaseTop) / phaseHeight) * 2)) * Math.PI;
+    return { lane: pointLane, index, value };
+  };
+
+  const applyStroke = (lane: Lane, from: { index: number; value: number }, to: { index: number; value: number }) => {
+    const current = draftRef.current;
+    const key = lane === 'amp' ? 'amplitudes' : 'phases';
+    const values = [...current[key]];
+    const steps = Math.abs(to.index - from.index);
+    for (let s = 0; s <= steps; s++) {
+      const k = steps === 0 ? 1 : s / steps;
+      const index = from.index + Math.sign(to.index - from.index) * s;
+      values[index] = from.value + (to.value - from.value) * k;
+    }
+    const next = { ...current, [key]: values };
+    draftRef.current = next;
+    setDraft(next);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getPoint(e);
+    strokeRef.current = point;
+    applyStroke(point.lane, point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    const point = getPoint(e, stroke?.lane);
+    setHover(point.index);
+    if (!stroke) return;
+    applyStroke(stroke.lane, stroke, point);
+    strokeRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    strokeRef.current = null;
+  };
+
+  // Wheel scrolls through the partials, Ctrl/Cmd + wheel zooms
+  const handleWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    if (e.ctrlKey || e.metaKey) {
+      const level = ZOOM_LEVELS.indexOf(visibleCount) + (e.deltaY > 0 ? 1 : -1);
+      setVisibleCount(ZOOM_LEVELS[Math.max(0, Math.min(ZOOM_LEVELS.length - 1, level))]);
+    } else {
+      const delta = Math.sign(e.deltaY || e.deltaX) * Math.max(1, Math.round(visible / 8));
+      setOffset(Math.max(0, Math.min(maxOffset, start + delta)));
+    }
+  };
+
+  // Native listener: React's wheel handlers are passive and cannot stop the page from scrolling
+  const wheelRef = useRef(handleWheel);
+  wheelRef.current = handleWheel;
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const listener = (e: WheelEvent) => wheelRef.current(e);
+    canvas.addEventListener('wheel', listener, { passive: false });
+    return () => canvas.removeEventListener('wheel', listener);
+  }, []);
 
   const reset = () => {
-    setHarmonics(new Array(16).fill(0).map((_, i) => i === 0 ? 1 : 0));
+    setDraft({ amplitudes: [...DEFAULT_HARMONIC_SPECTRUM.amplitudes], phases: [...DEFAULT_HARMONIC_SPECTRUM.phases] });
   };
 
+  // Only the partials in view, so zooming in and randomizing a region leaves the rest alone
   const randomize = () => {
-    setHarmonics(new Array(16).fill(0).map(() => Math.random()));
+    const amplitudes = [...draft.amplitudes];
+    for (let h = start; h < start + visible; h++) amplitudes[h] = Math.random();
+    setDraft({ ...draft, amplitudes });
+  };
+
+  const zeroPhases = () => {
+    setDraft({ ...draft, phases: new Array(partialCount).fill(0) });
   };
 
+  const hoverAmp = hover !== null ? draft.amplitudes[hover] ?? null : null;
+
   return (
-    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 h-64 flex flex-col">
-      <div className="flex justify-between items-center mb-4">
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-3">
+      <div className="flex justify-between items-center">
         <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Additive Harmonics</span>
         <div className="flex gap-2">
              <button onClick={randomize} className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded text-white transition">Rand</button>
+             <button onClick={zeroPhases} className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded text-white transition" title="Set every phase to 0">φ 0</button>
              <button onClick={reset} className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded text-white transition">Reset</button>
         </div>
       </div>
-      
-      <div className="flex-1 flex gap-1 items-end justify-between">
-        {harmonics.map((val, i) => (
-          <div key={i} className="flex-1 flex flex-col items-center h-full group relative">
-            <div className="relative w-full h-full bg-gray-900 rounded overflow-hidden">
-               <div 
-                 className="absolute bottom-0 left-0 right-0 bg-purple-500 transition-all duration-150 group-hover:bg-purple-400"
-                 style={{ height: `${val * 100}%` }}
-               />
-               <input 
-                 type="range"
-                 min="0"
-                 max="1"
-                 step="0.01"
-                 value={val}
-                 onChange={(e) => updateHarmonic(i, parseFloat(e.target.value))}
-                 className="absolute inset-0 w-full h-full opacity-0 cursor-ns-resize"
-                 title={`Harmonic ${i + 1}: ${Math.round(val * 100)}%`}
-               />
-            </div>
-            <span className="text-[10px] text-gray-500 mt-1">{i + 1}</span>
-          </div>
-        ))}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <div className="flex bg-gray-950 p-0.5 rounded-lg border border-gray-700">
+          {[AmplitudeScale.LINEAR, AmplitudeScale.DB].map(item => (
+            <button
+              key={item}
+              onClick={() => setScale(item)}
+              className={`px-2 py-0.5 rounded-md transition ${scale === item ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {item === AmplitudeScale.LINEAR ? 'Linear' : 'dB'}
+            </button>
+          ))}
+        </div>
+        <select
+          value={visibleCount}
+          onChange={(e) => setVisibleCount(parseInt(e.target.value))}
+          className="bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-gray-300 focus:outline-none"
+          title="Partials in view (Ctrl + wheel)"
+        >
+          {ZOOM_LEVELS.map(level => (
+            <option key={level} value={level}>{level} partials</option>
+          ))}
+        </select>
+        <span className="ml-auto font-mono text-gray-500">
+          {hover !== null && hoverAmp !== null
+            ? `#${hover + 1} ${scale === AmplitudeScale.DB ? `${hoverAmp > 0 ? (20 * Math.log10(hoverAmp)).toFixed(1) : '-∞'} dB` : hoverAmp.toFixed(3)} φ ${(draft.phases[hover] ?? 0).toFixed(2)}`
+            : `${start + 1}–${start + visible} of ${partialCount}`}
+        </span>
       </div>
+
+      <canvas
+        ref={canvasRef}
+        className="w-full h-48 rounded cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setHover(null)}
+      />
+
+      {maxOffset > 0 && (
+        <input
+          type="range"
+          min={0}
+          max={maxOffset}
+          value={start}
+          onChange={(e) => setOffset(parseInt(e.target.value))}
+          className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+        />
+      )}
+      <p className="text-[10px] text-gray-500">Draw across the bars: amplitude on top, phase (−π..π) below. Wheel scrolls.</p>
     </div>
   );
 };
 
-export default HarmonicEditor;
\ No newline at end of file
+export default HarmonicEditor;
@@ -0,0 +1,237 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HarmonicLane, HarmonicLaneSettings, LANE_RESOLUTION, MAX_FRAMES, MAX_PARTIALS } from '../types';
+
+interface HarmonicLaneEditorProps {
+  settings: HarmonicLaneSettings;
+  onChange: (settings: HarmonicLaneSettings) => void;
+}
+
+const LANE_COLORS = ['#a855f7', '#22d3ee', '#f59e0b', '#34d399', '#f472b6', '#60a5fa'];
+
+const SHAPES: { label: string; title: string; level: (x: number) => number }[] = [
+  { label: 'Flat', title: 'Constant level', level: () => 1 },
+  { label: 'Rise', title: 'Fade in across the table', level: x => x },
+  { label: 'Fall', title: 'Fade out across the table', level: x => 1 - x },
+  { label: 'Swell', title: 'Peak in the middle of the table', level: x => Math.sin(x * Math.PI) },
+];
+
+const clampHarmonic = (h: number) => Math.max(1, Math.min(MAX_PARTIALS, Math.round(h) || 1));
+
+const HarmonicLaneEditor: React.FC<HarmonicLaneEditorProps> = ({ settings, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [selected, setSelected] = useState(0);
+  // Last point of the stroke in progress, so fast drags fill every point in between
+  const strokeRef = useRef<{ index: number; value: number } | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  const { lanes } = settings;
+  const active = Math.min(selected, lanes.length - 1);
+  const lane: HarmonicLane | undefined = lanes[active];
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const dpr = window.devicePixelRatio;
+    canvas.width = rect.width * dpr;
+    canvas.height = rect.height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    const { width, height } = rect;
+
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, width, height);
+
+    // Quarter-table grid
+    ctx.strokeStyle = '#1f2937';
+    ctx.lineWidth = 1;
+    for (let q = 1; q < 4; q++) {
+      ctx.beginPath();
+      ctx.moveTo((q / 4) * width, 0);
+      ctx.lineTo((q / 4) * width, height);
+      ctx.stroke();
+    }
+
+    const toX = (i: number) => (i / (LANE_RESOLUTION - 1)) * width;
+    const toY = (level: number) => height - Math.max(0, Math.min(1, level)) * (height - 4) - 2;
+
+    // Other lanes faint behind the selected one
+    lanes.forEach((item, l) => {
+      if (l === active) return;
+      ctx.strokeStyle = LANE_COLORS[l % LANE_COLORS.length] + '55';
+      ctx.beginPath();
+      item.envelope.forEach((level, i) => (i === 0 ? ctx.moveTo(toX(i), toY(level)) : ctx.lineTo(toX(i), toY(level))));
+      ctx.stroke();
+    });
+
+    if (lane) {
+      const color = LANE_COLORS[active % LANE_COLORS.length];
+      ctx.beginPath();
+      lane.envelope.forEach((level, i) => (i === 0 ? ctx.moveTo(toX(i), toY(level)) : ctx.lineTo(toX(i), toY(level))));
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      ctx.lineTo(width, height);
+      ctx.lineTo(0, height);
+      ctx.closePath();
+      ctx.fillStyle = color + '22';
+      ctx.fill();
+    }
+
+    ctx.fillStyle = '#6b7280';
+    ctx.font = '9px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText('frame 1', 4, height - 4);
+    ctx.textAlign = 'right';
+    ctx.fillText(`${settings.frameCount}`, width - 4, height - 4);
+  }, [lanes, lane, active, settings.frameCount]);
+
+  const updateLane = (index: number, patch: Partial<HarmonicLane>) => {
+    const current = settingsRef.current;
+    const next = { ...current, lanes: current.lanes.map((item, l) => (l === index ? { ...item, ...patch } : item)) };
+    settingsRef.current = next;
+    onChange(next);
+  };
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    const value = Math.max(0, Math.min(1, 1 - (e.clientY - rect.top) / rect.height));
+    return { index: Math.round(x * (LANE_RESOLUTION - 1)), value };
+  };
+
+  const applyStroke = (from: { index: number; value: number }, to: { index: number; value: number }) => {
+    const current = settingsRef.current.lanes[active];
+    if (!current) return;
+    const envelope = [...current.envelope];
+    const steps = Math.abs(to.index - from.index);
+    for (let s = 0; s <= steps; s++) {
+      const k = steps === 0 ? 1 : s / steps;
+      envelope[from.index + Math.sign(to.index - from.index) * s] = from.value + (to.value - from.value) * k;
+    }
+    updateLane(active, { envelope });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getPoint(e);
+    strokeRef.current = point;
+    applyStroke(point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    const point = getPoint(e);
+    applyStroke(stroke, point);
+    strokeRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    strokeRef.current = null;
+  };
+
+  const addLane = () => {
+    const next = clampHarmonic(Math.max(0, ...lanes.map(item => item.end)) + 1);
+    onChange({ ...settings, lanes: [...lanes, { start: next, end: next, envelope: new Array(LANE_RESOLUTION).fill(0.5) }] });
+    setSelected(lanes.length);
+  };
+
+  const removeLane = () => {
+    if (lanes.length <= 1) return;
+    onChange({ ...settings, lanes: lanes.filter((_, l) => l !== active) });
+    setSelected(Math.max(0, active - 1));
+  };
+
+  const setRange = (start: number, end: number) => {
+    const from = clampHarmonic(start);
+    updateLane(active, { start: from, end: Math.max(from, clampHarmonic(end)) });
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Harmonic Lanes</span>
+        <div className="flex gap-2">
+          <button onClick={addLane} className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded text-white transition">+ Lane</button>
+          <button onClick={removeLane} disabled={lanes.length <= 1} className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded text-white transition disabled:opacity-40">Remove</button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {lanes.map((item, l) => (
+          <button
+            key={l}
+            onClick={() => setSelected(l)}
+            className={`px-2 py-0.5 rounded text-xs font-mono border transition ${l === active ? 'bg-gray-700 text-white border-gray-500' : 'text-gray-400 border-gray-700 hover:text-gray-200'}`}
+            style={{ borderLeftColor: LANE_COLORS[l % LANE_COLORS.length], borderLeftWidth: 3 }}
+          >
+            {item.start === item.end ? `H${item.start}` : `H${item.start}–${item.end}`}
+          </button>
+        ))}
+      </div>
+
+      {lane && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+          Harmonics
+          <input
+            type="number"
+            min={1}
+            max={MAX_PARTIALS}
+            value={lane.start}
+            onChange={(e) => setRange(parseInt(e.target.value), Math.max(lane.end, parseInt(e.target.value) || 1))}
+            className="w-14 bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-gray-200 focus:outline-none"
+          />
+          to
+          <input
+            type="number"
+            min={lane.start}
+            max={MAX_PARTIALS}
+            value={lane.end}
+            onChange={(e) => setRange(lane.start, parseInt(e.target.value))}
+            className="w-14 bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-gray-200 focus:outline-none"
+          />
+          <div className="flex gap-1 ml-auto">
+            {SHAPES.map(shape => (
+              <button
+                key={shape.label}
+                onClick={() => updateLane(active, { envelope: Array.from({ length: LANE_RESOLUTION }, (_, i) => shape.level(i / (LANE_RESOLUTION - 1))) })}
+                title={shape.title}
+                className="px-1.5 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-white transition"
+              >
+                {shape.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <canvas
+        ref={canvasRef}
+        className="w-full h-36 rounded cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+
+      <label className="flex items-center justify-between text-xs text-gray-400">
+        Frames
+        <input
+          type="number"
+          min={1}
+          max={MAX_FRAMES}
+          value={settings.frameCount}
+          onChange={(e) => onChange({ ...settings, frameCount: Math.max(1, Math.min(MAX_FRAMES, parseInt(e.target.value) || 1)) })}
+          className="w-20 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-purple-500"
+        />
+      </label>
+      <p className="text-[10px] text-gray-500">Draw the selected lane's level from the first frame (left) to the last (right). Partials in a band roll off like a saw.</p>
+    </div>
+  );
+};
+
+export default HarmonicLaneEditor;
@@ -0,0 +1,152 @@
+import React from 'react';
+import { Image as ImageIcon } from 'lucide-react';
+import { ImageSettings, ImageMapping, ImageChannel, MAX_FRAMES, MAX_PARTIALS } from '../types';
+
+interface ImagePanelProps {
+  settings: ImageSettings;
+  onChange: (settings: ImageSettings) => void;
+  imageUrl: string | null;
+  onFile: (file: File) => void;
+  onApply: () => void;
+}
+
+const MAPPINGS: { value: ImageMapping; label: string; hint: string }[] = [
+  { value: ImageMapping.ROWS, label: 'Rows', hint: 'Each row becomes a frame; brightness is the waveform.' },
+  { value: ImageMapping.SPECTROGRAM, label: 'Spectrogram', hint: 'Left to right are harmonics, top to bottom are frames; brightness is the level of each partial.' },
+  { value: ImageMapping.SINGLE, label: 'One Frame', hint: 'The whole image is averaged into the selected frame.' },
+];
+
+const CHANNELS: { value: ImageChannel; label: string; title?: string }[] = [
+  { value: ImageChannel.LUMINANCE, label: 'Luma' },
+  { value: ImageChannel.RED, label: 'R' },
+  { value: ImageChannel.GREEN, label: 'G' },
+  { value: ImageChannel.BLUE, label: 'B' },
+  { value: ImageChannel.ALPHA, label: 'A' },
+  { value: ImageChannel.PACKED16, label: '16', title: '16-bit values split over red and green, as in WaveForge PNG exports' },
+];
+
+const ImagePanel: React.FC<ImagePanelProps> = ({ settings, onChange, imageUrl, onFile, onApply }) => {
+  const update = <K extends keyof ImageSettings>(key: K, value: ImageSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const hint = MAPPINGS.find(m => m.value === settings.mapping)?.hint;
+
+  return (
+    <div className="space-y-3">
+      <label className="block w-full border-2 border-dashed border-gray-700 hover:border-cyan-500 rounded-xl p-4 text-center cursor-pointer transition group">
+        {imageUrl ? (
+          <img
+            src={imageUrl}
+            alt="Source"
+            className="mx-auto max-h-32 rounded"
+            style={{ filter: `${settings.invert ? 'invert(1) ' : ''}contrast(${settings.contrast})` }}
+          />
+        ) : (
+          <div className="mx-auto w-12 h-12 bg-gray-800 rounded-full flex items-center justify-center mb-3 group-hover:bg-cyan-900/30 transition">
+            <ImageIcon className="text-gray-400 group-hover:text-cyan-400" />
+          </div>
+        )}
+        <span className="block mt-2 text-sm text-gray-300 font-medium">{imageUrl ? 'Choose Another Image' : 'Click to Upload Image'}</span>
+        <input
+          type="file"
+          className="hidden"
+          accept="image/*"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      <div className="grid grid-cols-3 gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+        {MAPPINGS.map(item => (
+          <button
+            key={item.value}
+            onClick={() => update('mapping', item.value)}
+            className={`py-1 rounded-md text-xs transition ${settings.mapping === item.value ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">{hint}</p>
+
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        Channel
+        <div className="flex bg-gray-950 p-0.5 rounded-lg border border-gray-700">
+          {CHANNELS.map(item => (
+            <button
+              key={item.value}
+              onClick={() => update('channel', item.value)}
+              title={item.title}
+              className={`px-2 py-0.5 rounded-md transition ${settings.channel === item.value ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-3 text-xs text-gray-400">
+        <span className="w-16">Contrast</span>
+        <input
+          type="range"
+          min={0.25}
+          max={4}
+          step={0.05}
+          value={settings.contrast}
+          onChange={(e) => update('contrast', parseFloat(e.target.value))}
+          className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+        />
+        <span className="w-10 text-right font-mono">{settings.contrast.toFixed(2)}</span>
+      </label>
+
+      <label className="flex items-center gap-2 text-xs text-gray-400">
+        <input type="checkbox" checked={settings.invert} onChange={(e) => update('invert', e.target.checked)} className="accent-cyan-500" />
+        Invert
+      </label>
+
+      {settings.mapping !== ImageMapping.SINGLE && (
+        <label className="flex items-center justify-between text-xs text-gray-400">
+          Frames
+          <input
+            type="number"
+            min={1}
+            max={MAX_FRAMES}
+            value={settings.frameCount}
+            onChange={(e) => update('frameCount', Math.max(1, Math.min(MAX_FRAMES, parseInt(e.target.value) || 1)))}
+            className="w-20 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-cyan-500"
+          />
+        </label>
+      )}
+      {settings.mapping === ImageMapping.SPECTROGRAM && (
+        <label className="flex items-center justify-between text-xs text-gray-400">
+          Harmonics across
+          <input
+            type="number"
+            min={1}
+            max={MAX_PARTIALS}
+            value={settings.harmonicCount}
+            onChange={(e) => update('harmonicCount', Math.max(1, Math.min(MAX_PARTIALS, parseInt(e.target.value) || 1)))}
+            className="w-20 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-cyan-500"
+          />
+        </label>
+      )}
+
+      {imageUrl && (
+        <p className="text-xs text-gray-500">Previewing in the spectral view; nothing changes until you apply.</p>
+      )}
+      <button
+        onClick={onApply}
+        disabled={!imageUrl}
+        className="w-full bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 rounded-lg transition disabled:opacity-40 disabled:hover:bg-cyan-600"
+      >
+        {settings.mapping === ImageMapping.SINGLE ? 'Apply to Frame' : 'Replace Table'}
+      </button>
+    </div>
+  );
+};
+
+export default ImagePanel;
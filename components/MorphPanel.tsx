@@ -0,0 +1,133 @@
+import React from 'react';
+import { MorphSettings, MorphMode, EasingCurve } from '../types';
+import { applyEasing } from '../utils/morph';
+
+interface MorphPanelProps {
+  settings: MorphSettings;
+  onChange: (settings: MorphSettings) => void;
+  keyframeCount: number;
+  span: [number, number] | null;   // selected frames to morph across, null for the whole table
+  onMorph: () => void;
+}
+
+const MODES: { value: MorphMode; label: string; hint: string }[] = [
+  { value: MorphMode.CROSSFADE, label: 'Crossfade', hint: 'Blend samples directly' },
+  { value: MorphMode.SPECTRAL, label: 'Spectral', hint: 'Blend harmonic levels and phases' },
+  { value: MorphMode.ZERO_CROSSING, label: 'Shape', hint: 'Blend with zero crossings lined up' },
+  { value: MorphMode.POINTS, label: 'Points', hint: 'Move the breakpoints of vector frames; other frames crossfade' },
+];
+
+const EASINGS: { value: EasingCurve; label: string }[] = [
+  { value: EasingCurve.LINEAR, label: 'Linear' },
+  { value: EasingCurve.EASE_IN, label: 'Ease In' },
+  { value: EasingCurve.EASE_OUT, label: 'Ease Out' },
+  { value: EasingCurve.EASE_IN_OUT, label: 'Ease In/Out' },
+  { value: EasingCurve.EXPONENTIAL, label: 'Exponential' },
+  { value: EasingCurve.CUSTOM, label: 'Custom' },
+];
+
+const CURVE_POINTS = 32;
+
+const MorphPanel: React.FC<MorphPanelProps> = ({ settings, onChange, keyframeCount, span, onMorph }) => {
+  const update = <K extends keyof MorphSettings>(key: K, value: MorphSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const updateBezier = (index: number, value: number) => {
+    const bezier = [...settings.bezier] as MorphSettings['bezier'];
+    // x control points must stay in 0..1 for the curve to be a function of time
+    bezier[index] = index % 2 === 0 ? Math.max(0, Math.min(1, value)) : value;
+    update('bezier', bezier);
+  };
+
+  // Small preview of the easing curve
+  const curvePath = Array.from({ length: CURVE_POINTS + 1 }, (_, i) => {
+    const t = i / CURVE_POINTS;
+    const y = applyEasing(t, settings);
+    return `${i === 0 ? 'M' : 'L'}${(t * 40).toFixed(1)},${(40 - y * 40).toFixed(1)}`;
+  }).join(' ');
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 pt-3 mt-3 border-t border-gray-800">
+      <label className="flex flex-col gap-1 text-[10px] text-gray-500 font-mono uppercase">
+        Morph
+        <select
+          value={settings.mode}
+          onChange={(e) => update('mode', e.target.value as MorphMode)}
+          title={MODES.find(m => m.value === settings.mode)?.hint}
+          className="bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300 focus:outline-none"
+        >
+          {MODES.map(m => (
+            <option key={m.value} value={m.value}>{m.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1 text-[10px] text-gray-500 font-mono uppercase">
+        Easing
+        <select
+          value={settings.easing}
+          onChange={(e) => update('easing', e.target.value as EasingCurve)}
+          className="bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300 focus:outline-none"
+        >
+          {EASINGS.map(e => (
+            <option key={e.value} value={e.value}>{e.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {settings.easing === EasingCurve.EXPONENTIAL && (
+        <label className="flex flex-col gap-1 text-[10px] text-gray-500 font-mono uppercase w-28">
+          <span className="flex justify-between"><span>Power</span><span className="text-gray-400">{settings.exponent.toFixed(2)}</span></span>
+          <input
+            type="range"
+            min={0.1}
+            max={8}
+            step={0.05}
+            value={settings.exponent}
+            onChange={(e) => update('exponent', parseFloat(e.target.value))}
+            className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+          />
+        </label>
+      )}
+
+      {settings.easing === EasingCurve.CUSTOM && (
+        <div className="flex flex-col gap-1 text-[10px] text-gray-500 font-mono uppercase">
+          cubic-bezier
+          <div className="flex gap-1">
+            {settings.bezier.map((value, i) => (
+              <input
+                key={i}
+                type="number"
+                step={0.05}
+                min={i % 2 === 0 ? 0 : -1}
+                max={i % 2 === 0 ? 1 : 2}
+                value={value}
+                onChange={(e) => updateBezier(i, parseFloat(e.target.value) || 0)}
+                className="w-12 bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300 focus:outline-none"
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <svg width={40} height={40} viewBox="-2 -2 44 44" className="bg-gray-950 rounded border border-gray-800">
+        <path d={curvePath} fill="none" stroke="#a855f7" strokeWidth={1.5} />
+      </svg>
+
+      <button
+        onClick={onMorph}
+        className="ml-auto text-xs text-purple-400 hover:text-purple-300 transition font-medium"
+        title={span
+          ? 'Regenerate the selected frames between the first and last selected, and any keyframes in between'
+          : keyframeCount >= 2 ? 'Regenerate the frames between keyframes' : 'No keyframes set: morphs from the first to the last frame'}
+      >
+        {span
+          ? `Morph Frames ${span[0] + 1} → ${span[1] + 1}`
+          : keyframeCount >= 2 ? `Fill Between ${keyframeCount} Keyframes` : 'Morph First → Last'}
+      </button>
+    </div>
+  );
+};
+
+export default MorphPanel;
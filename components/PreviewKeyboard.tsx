@@ -0,0 +1,184 @@
+import React, { useEffect, useRef } from 'react';
+import { Music } from 'lucide-react';
+import { SynthSettings } from '../types';
+
+interface PreviewKeyboardProps {
+  settings: SynthSettings;
+  onSettingsChange: (settings: SynthSettings) => void;
+  activeNotes: Set<number>;
+  onNoteOn: (note: number) => void;
+  onNoteOff: (note: number) => void;
+}
+
+// Two octaves plus the top C
+const KEY_COUNT = 25;
+const BLACK_KEYS = new Set([1, 3, 6, 8, 10]);
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Tracker-style layout: the home row plays white keys, the row above plays black keys.
+// Uses physical key codes so it works the same on AZERTY/QWERTZ.
+const KEY_CODE_TO_OFFSET: Record<string, number> = {
+  KeyA: 0, KeyW: 1, KeyS: 2, KeyE: 3, KeyD: 4, KeyF: 5, KeyT: 6, KeyG: 7, KeyY: 8, KeyH: 9,
+  KeyU: 10, KeyJ: 11, KeyK: 12, KeyO: 13, KeyL: 14, KeyP: 15, Semicolon: 16, Quote: 17,
+};
+
+const MIN_OCTAVE = 0;
+const MAX_OCTAVE = 7;
+
+const PreviewKeyboard: React.FC<PreviewKeyboardProps> = ({ settings, onSettingsChange, activeNotes, onNoteOn, onNoteOff }) => {
+  const baseNote = (settings.octave + 1) * 12;
+  // Note started by each held computer key, so an octave change mid-hold still releases it
+  const heldKeysRef = useRef<Map<string, number>>(new Map());
+  const handlersRef = useRef({ onNoteOn, onNoteOff, settings, onSettingsChange });
+  handlersRef.current = { onNoteOn, onNoteOff, settings, onSettingsChange };
+
+  const update = <K extends keyof SynthSettings>(key: K, value: SynthSettings[K]) => {
+    onSettingsChange({ ...settings, [key]: value });
+  };
+
+  const shiftOctave = (delta: number) => {
+    update('octave', Math.max(MIN_OCTAVE, Math.min(MAX_OCTAVE, settings.octave + delta)));
+  };
+
+  useEffect(() => {
+    const isTyping = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      return !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTyping(e)) return;
+      const { settings: current, onSettingsChange: change, onNoteOn: noteOn } = handlersRef.current;
+
+      if (e.code === 'KeyZ' || e.code === 'KeyX') {
+        const octave = current.octave + (e.code === 'KeyZ' ? -1 : 1);
+        change({ ...current, octave: Math.max(MIN_OCTAVE, Math.min(MAX_OCTAVE, octave)) });
+        return;
+      }
+
+      const offset = KEY_CODE_TO_OFFSET[e.code];
+      if (offset === undefined || heldKeysRef.current.has(e.code)) return;
+      const note = (current.octave + 1) * 12 + offset;
+      heldKeysRef.current.set(e.code, note);
+      noteOn(note);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const note = heldKeysRef.current.get(e.code);
+      if (note === undefined) return;
+      heldKeysRef.current.delete(e.code);
+      handlersRef.current.onNoteOff(note);
+    };
+
+    // Losing focus swallows keyup events; release everything rather than leave notes hanging
+    const handleBlur = () => {
+      heldKeysRef.current.forEach(note => handlersRef.current.onNoteOff(note));
+      heldKeysRef.current.clear();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  const whiteKeys: number[] = [];
+  const blackKeys: { note: number; whiteIndex: number }[] = [];
+  for (let i = 0; i < KEY_COUNT; i++) {
+    if (BLACK_KEYS.has(i % 12)) {
+      blackKeys.push({ note: baseNote + i, whiteIndex: whiteKeys.length });
+    } else {
+      whiteKeys.push(baseNote + i);
+    }
+  }
+
+  const keyHandlers = (note: number) => ({
+    onMouseDown: (e: React.MouseEvent) => {
+      e.preventDefault();
+      onNoteOn(note);
+    },
+    onMouseUp: () => onNoteOff(note),
+    onMouseLeave: () => {
+      if (activeNotes.has(note)) onNoteOff(note);
+    },
+    // Glissando: sliding onto a key with the button held plays it
+    onMouseEnter: (e: React.MouseEvent) => {
+      if (e.buttons === 1) onNoteOn(note);
+    },
+  });
+
+  const sliders: { key: keyof SynthSettings; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+    { key: 'attack', label: 'A', min: 0.001, max: 2, step: 0.001, format: v => `${Math.round(v * 1000)}ms` },
+    { key: 'decay', label: 'D', min: 0.001, max: 2, step: 0.001, format: v => `${Math.round(v * 1000)}ms` },
+    { key: 'sustain', label: 'S', min: 0, max: 1, step: 0.01, format: v => `${Math.round(v * 100)}%` },
+    { key: 'release', label: 'R', min: 0.01, max: 4, step: 0.01, format: v => `${Math.round(v * 1000)}ms` },
+    { key: 'unison', label: 'Unison', min: 1, max: 7, step: 1, format: v => `${v}` },
+    { key: 'detune', label: 'Detune', min: 0, max: 100, step: 1, format: v => `${v}ct` },
+    { key: 'volume', label: 'Vol', min: 0, max: 1, step: 0.01, format: v => `${Math.round(v * 100)}%` },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 md:grid-cols-7 gap-3">
+        {sliders.map(slider => (
+          <label key={slider.key} className="flex flex-col gap-1 text-[10px] text-gray-500 font-mono uppercase">
+            <span className="flex justify-between">
+              <span>{slider.label}</span>
+              <span className="text-gray-400">{slider.format(settings[slider.key])}</span>
+            </span>
+            <input
+              type="range"
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              value={settings[slider.key]}
+              onChange={(e) => update(slider.key, parseFloat(e.target.value))}
+              className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div className="flex flex-col items-center gap-1">
+          <button onClick={() => shiftOctave(1)} className="px-2 text-xs bg-gray-800 hover:bg-gray-700 rounded border border-gray-700 transition" title="Octave up (X)">+</button>
+          <span className="text-[10px] font-mono text-gray-400 flex items-center gap-1"><Music size={10} />C{settings.octave}</span>
+          <button onClick={() => shiftOctave(-1)} className="px-2 text-xs bg-gray-800 hover:bg-gray-700 rounded border border-gray-700 transition" title="Octave down (Z)">−</button>
+        </div>
+
+        <div className="relative flex-1 h-24 select-none">
+          <div className="flex h-full gap-px">
+            {whiteKeys.map(note => (
+              <div
+                key={note}
+                {...keyHandlers(note)}
+                className={`flex-1 flex items-end justify-center pb-1 rounded-b cursor-pointer transition-colors ${activeNotes.has(note) ? 'bg-cyan-400' : 'bg-gray-200 hover:bg-white'}`}
+              >
+                {note % 12 === 0 && <span className="text-[9px] text-gray-500 font-mono">{NOTE_NAMES[0]}{Math.floor(note / 12) - 1}</span>}
+              </div>
+            ))}
+          </div>
+          {blackKeys.map(({ note, whiteIndex }) => (
+            <div
+              key={note}
+              {...keyHandlers(note)}
+              className={`absolute top-0 h-[60%] rounded-b cursor-pointer transition-colors ${activeNotes.has(note) ? 'bg-purple-500' : 'bg-gray-900 hover:bg-gray-700'}`}
+              style={{
+                left: `${(whiteIndex / whiteKeys.length) * 100}%`,
+                width: `${(0.6 / whiteKeys.length) * 100}%`,
+                transform: 'translateX(-50%)',
+              }}
+              title={`${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 1}`}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreviewKeyboard;
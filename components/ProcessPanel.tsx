@@ -0,0 +1,133 @@
+import React from 'react';
+import { ProcessSettings, ProcessType, ProcessScope } from '../types';
+import { processUsesAmount } from '../utils/processing';
+
+interface ProcessPanelProps {
+  settings: ProcessSettings;
+  onChange: (settings: ProcessSettings) => void;
+  frameCount: number;
+  selectionSize: number;
+  onApply: () => void;
+}
+
+const PROCESSES: { value: ProcessType; label: string; amount?: string }[] = [
+  { value: ProcessType.REMOVE_DC, label: 'Remove DC' },
+  { value: ProcessType.NORMALIZE, label: 'Normalize (per frame)', amount: 'Level' },
+  { value: ProcessType.NORMALIZE_TABLE, label: 'Normalize (together)', amount: 'Level' },
+  { value: ProcessType.SMOOTH, label: 'Smooth', amount: 'Amount' },
+  { value: ProcessType.WAVEFOLD, label: 'Wavefold', amount: 'Drive' },
+  { value: ProcessType.HARD_CLIP, label: 'Hard Clip', amount: 'Drive' },
+  { value: ProcessType.SOFT_CLIP, label: 'Soft Clip', amount: 'Drive' },
+  { value: ProcessType.BEND, label: 'Bend', amount: 'Bend −/+' },
+  { value: ProcessType.PHASE_DISTORT, label: 'Phase Distort', amount: 'Amount' },
+  { value: ProcessType.MIRROR, label: 'Mirror', amount: 'Mix' },
+  { value: ProcessType.INVERT, label: 'Invert' },
+  { value: ProcessType.REVERSE, label: 'Reverse' },
+  { value: ProcessType.SYNC, label: 'Sync', amount: 'Ratio' },
+  { value: ProcessType.PWM, label: 'PWM', amount: 'Width' },
+  { value: ProcessType.BIT_CRUSH, label: 'Bit Crush', amount: 'Crush' },
+  { value: ProcessType.REMOVE_FUNDAMENTAL, label: 'Remove Fundamental' },
+];
+
+const ProcessPanel: React.FC<ProcessPanelProps> = ({ settings, onChange, frameCount, selectionSize, onApply }) => {
+  const update = <K extends keyof ProcessSettings>(key: K, value: ProcessSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const process = PROCESSES.find(p => p.value === settings.type);
+  const usesAmount = processUsesAmount(settings.type);
+  // Ramping only means something when more than one frame is processed
+  const canRamp = usesAmount && settings.scope !== ProcessScope.FRAME;
+
+  const amountSlider = (key: 'amount' | 'amountEnd', label: string) => (
+    <label className="flex items-center gap-3 text-xs text-gray-400">
+      <span className="w-20">{label}</span>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.01}
+        value={settings[key]}
+        onChange={(e) => update(key, parseFloat(e.target.value))}
+        className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-orange-500"
+      />
+      <span className="w-10 text-right font-mono">{Math.round(settings[key] * 100)}%</span>
+    </label>
+  );
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-800 p-5 space-y-3">
+      <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Process</h3>
+
+      <select
+        value={settings.type}
+        onChange={(e) => update('type', e.target.value as ProcessType)}
+        className="w-full bg-gray-950 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-orange-500"
+      >
+        {PROCESSES.map(p => (
+          <option key={p.value} value={p.value}>{p.label}</option>
+        ))}
+      </select>
+
+      <div className="grid grid-cols-4 gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+        {[
+          { scope: ProcessScope.FRAME, label: 'This Frame' },
+          { scope: ProcessScope.SELECTION, label: `Selected (${selectionSize})` },
+          { scope: ProcessScope.RANGE, label: 'Range' },
+          { scope: ProcessScope.TABLE, label: 'All Frames' },
+        ].map(item => (
+          <button
+            key={item.scope}
+            onClick={() => onChange(item.scope === ProcessScope.RANGE && settings.scope !== ProcessScope.RANGE
+              ? { ...settings, scope: item.scope, rangeStart: 0, rangeEnd: frameCount - 1 }
+              : { ...settings, scope: item.scope })}
+            className={`py-1 rounded-md text-xs transition ${settings.scope === item.scope ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {settings.scope === ProcessScope.RANGE && (
+        <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+          Frames
+          <input
+            type="number"
+            min={1}
+            max={frameCount}
+            value={settings.rangeStart + 1}
+            onChange={(e) => update('rangeStart', Math.max(0, Math.min(frameCount - 1, (parseInt(e.target.value) || 1) - 1)))}
+            className="w-16 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-orange-500"
+          />
+          to
+          <input
+            type="number"
+            min={1}
+            max={frameCount}
+            value={settings.rangeEnd + 1}
+            onChange={(e) => update('rangeEnd', Math.max(0, Math.min(frameCount - 1, (parseInt(e.target.value) || 1) - 1)))}
+            className="w-16 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-orange-500"
+          />
+        </div>
+      )}
+
+      {usesAmount && amountSlider('amount', canRamp && settings.ramp ? `${process?.amount} (first)` : process?.amount ?? 'Amount')}
+      {canRamp && (
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <input type="checkbox" checked={settings.ramp} onChange={(e) => update('ramp', e.target.checked)} className="accent-orange-500" />
+          Ramp to a different amount on the last frame
+        </label>
+      )}
+      {canRamp && settings.ramp && amountSlider('amountEnd', `${process?.amount} (last)`)}
+
+      <button
+        onClick={onApply}
+        className="w-full bg-orange-600 hover:bg-orange-500 text-white font-bold py-2 rounded-lg transition"
+      >
+        Apply {process?.label}
+      </button>
+    </div>
+  );
+};
+
+export default ProcessPanel;
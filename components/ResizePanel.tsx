@@ -0,0 +1,90 @@
+import React from 'react';
+import { TableResizeSettings, MorphMode, MAX_FRAMES } from '../types';
+
+interface ResizePanelProps {
+  settings: TableResizeSettings;
+  onChange: (settings: TableResizeSettings) => void;
+  frameCount: number;
+  onResize: () => void;
+}
+
+// Frame counts synths expect: Serum and Vital 256, smaller hardware 64 or 16
+const PRESETS = [16, 64, 256];
+
+const MODES: { value: MorphMode; label: string }[] = [
+  { value: MorphMode.CROSSFADE, label: 'Crossfade' },
+  { value: MorphMode.SPECTRAL, label: 'Spectral' },
+];
+
+const ResizePanel: React.FC<ResizePanelProps> = ({ settings, onChange, frameCount, onResize }) => {
+  const update = <K extends keyof TableResizeSettings>(key: K, value: TableResizeSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const shrinking = settings.frameCount < frameCount;
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 pt-3 mt-3 border-t border-gray-800">
+      <label className="flex flex-col gap-1 text-[10px] text-gray-500 font-mono uppercase">
+        Resize To
+        <input
+          type="number"
+          min={1}
+          max={MAX_FRAMES}
+          value={settings.frameCount}
+          onChange={(e) => update('frameCount', Math.max(1, Math.min(MAX_FRAMES, parseInt(e.target.value) || 1)))}
+          className="w-16 bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300 focus:outline-none"
+        />
+      </label>
+
+      <div className="flex gap-1">
+        {PRESETS.map(count => (
+          <button
+            key={count}
+            onClick={() => update('frameCount', count)}
+            className={`px-2 py-0.5 rounded text-xs font-mono border transition ${settings.frameCount === count ? 'bg-gray-700 border-gray-600 text-white' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+          >
+            {count}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex flex-col gap-1 text-[10px] text-gray-500 font-mono uppercase">
+        Interpolation
+        <select
+          value={settings.mode}
+          onChange={(e) => update('mode', e.target.value as MorphMode)}
+          className="bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300 focus:outline-none"
+        >
+          {MODES.map(m => (
+            <option key={m.value} value={m.value}>{m.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label
+        className={`flex items-center gap-1 text-xs ${shrinking ? 'text-gray-400' : 'text-gray-600'}`}
+        title="When shrinking, average the frames that merge into each new frame instead of sampling between them"
+      >
+        <input
+          type="checkbox"
+          checked={settings.average}
+          disabled={!shrinking}
+          onChange={(e) => update('average', e.target.checked)}
+          className="accent-cyan-500"
+        />
+        Average
+      </label>
+
+      <button
+        onClick={onResize}
+        disabled={settings.frameCount === frameCount}
+        className="ml-auto text-xs text-cyan-400 hover:text-cyan-300 transition font-medium disabled:opacity-40"
+      >
+        Resize {frameCount} → {settings.frameCount} Frames
+      </button>
+    </div>
+  );
+};
+
+export default ResizePanel;
@@ -0,0 +1,187 @@
+import React, { useEffect, useRef } from 'react';
+import { FileAudio } from 'lucide-react';
+import { SampleResynthSettings, SampleResynthMethod, MAX_FRAMES } from '../types';
+import { DecodedSample } from '../utils/sampleResynthesis';
+
+interface SamplePanelProps {
+  settings: SampleResynthSettings;
+  onChange: (settings: SampleResynthSettings) => void;
+  sample: DecodedSample | null;
+  detectedPitch: number | null;
+  onFile: (file: File) => void;
+  onApply: () => void;
+}
+
+const METHODS: { value: SampleResynthMethod; label: string; hint: string }[] = [
+  { value: SampleResynthMethod.CYCLES, label: 'Cycles', hint: 'Cuts single cycles out of the recording at zero crossings.' },
+  { value: SampleResynthMethod.SPECTRAL, label: 'Resynth', hint: 'Measures the harmonics around each cycle and rebuilds it, so every frame loops cleanly.' },
+];
+
+const SamplePanel: React.FC<SamplePanelProps> = ({ settings, onChange, sample, detectedPitch, onFile, onApply }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Region edge being dragged
+  const dragRef = useRef<'start' | 'end' | null>(null);
+
+  const update = <K extends keyof SampleResynthSettings>(key: K, value: SampleResynthSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  // Overview: min/max per pixel column with the selected region highlighted
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !sample) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const dpr = window.devicePixelRatio;
+    canvas.width = rect.width * dpr;
+    canvas.height = rect.height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    const { width, height } = rect;
+    const { samples } = sample;
+
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = 'rgba(16, 185, 129, 0.12)';
+    ctx.fillRect(settings.start * width, 0, (settings.end - settings.start) * width, height);
+
+    ctx.fillStyle = '#10b981';
+    const perColumn = samples.length / width;
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor(x * perColumn);
+      const to = Math.max(from + 1, Math.floor((x + 1) * perColumn));
+      let min = 0;
+      let max = 0;
+      for (let i = from; i < to && i < samples.length; i++) {
+        if (samples[i] < min) min = samples[i];
+        if (samples[i] > max) max = samples[i];
+      }
+      const top = (1 - max) * height / 2;
+      ctx.fillRect(x, top, 1, Math.max(1, (max - min) * height / 2));
+    }
+
+    ctx.fillStyle = '#e5e7eb';
+    ctx.fillRect(settings.start * width - 1, 0, 2, height);
+    ctx.fillRect(settings.end * width - 1, 0, 2, height);
+  }, [sample, settings.start, settings.end]);
+
+  const getPosition = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+  };
+
+  const moveEdge = (edge: 'start' | 'end', position: number) => {
+    if (edge === 'start') update('start', Math.min(position, settings.end - 0.001));
+    else update('end', Math.max(position, settings.start + 0.001));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const position = getPosition(e);
+    // Grab whichever edge is closer
+    const edge = Math.abs(position - settings.start) <= Math.abs(position - settings.end) ? 'start' : 'end';
+    dragRef.current = edge;
+    moveEdge(edge, position);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragRef.current) moveEdge(dragRef.current, getPosition(e));
+  };
+
+  const duration = sample ? sample.samples.length / sample.sampleRate : 0;
+
+  return (
+    <div className="space-y-3">
+      <label className="block w-full border-2 border-dashed border-gray-700 hover:border-emerald-500 rounded-xl p-4 text-center cursor-pointer transition group">
+        <FileAudio className="mx-auto text-gray-400 group-hover:text-emerald-400" />
+        <span className="block mt-2 text-sm text-gray-300 font-medium truncate">{sample ? sample.name : 'Click to Load a Sample'}</span>
+        <input
+          type="file"
+          className="hidden"
+          accept="audio/*,.wav,.mp3,.ogg,.flac,.m4a"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {sample && (
+        <>
+          <canvas
+            ref={canvasRef}
+            className="w-full h-20 rounded cursor-ew-resize touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => { dragRef.current = null; }}
+            onPointerCancel={() => { dragRef.current = null; }}
+          />
+          <div className="flex justify-between text-xs font-mono text-gray-500">
+            <span>{(settings.start * duration).toFixed(2)}s – {(settings.end * duration).toFixed(2)}s</span>
+            <span className={detectedPitch === null && settings.pitch === null ? 'text-red-400' : ''}>
+              {settings.pitch === null
+                ? (detectedPitch !== null ? `${detectedPitch.toFixed(1)} Hz detected` : 'no pitch found')
+                : `${settings.pitch} Hz set`}
+            </span>
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-2 gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+        {METHODS.map(item => (
+          <button
+            key={item.value}
+            onClick={() => update('method', item.value)}
+            className={`py-1 rounded-md text-xs transition ${settings.method === item.value ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">{METHODS.find(m => m.value === settings.method)?.hint}</p>
+
+      <label className="flex items-center justify-between text-xs text-gray-400">
+        Frames
+        <input
+          type="number"
+          min={1}
+          max={MAX_FRAMES}
+          value={settings.frameCount}
+          onChange={(e) => update('frameCount', Math.max(1, Math.min(MAX_FRAMES, parseInt(e.target.value) || 1)))}
+          className="w-20 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-emerald-500"
+        />
+      </label>
+      <label className="flex items-center justify-between text-xs text-gray-400">
+        Pitch (Hz)
+        <input
+          type="number"
+          min={20}
+          max={4000}
+          step={0.1}
+          value={settings.pitch ?? ''}
+          placeholder="auto"
+          onChange={(e) => {
+            const hz = parseFloat(e.target.value);
+            update('pitch', hz > 0 ? hz : null);
+          }}
+          className="w-20 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-emerald-500"
+        />
+      </label>
+
+      {sample && (
+        <p className="text-xs text-gray-500">Previewing in the spectral view; nothing changes until you apply.</p>
+      )}
+      <button
+        onClick={onApply}
+        disabled={!sample || (settings.pitch === null && detectedPitch === null)}
+        className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-2 rounded-lg transition disabled:opacity-40 disabled:hover:bg-emerald-600"
+      >
+        Replace Table
+      </button>
+    </div>
+  );
+};
+
+export default SamplePanel;
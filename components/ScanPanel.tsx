@@ -0,0 +1,185 @@
+import React from 'react';
+import { ScanSettings, ScanSource, ScanDirection, LfoShape } from '../types';
+
+interface ScanPanelProps {
+  settings: ScanSettings;
+  onChange: (settings: ScanSettings) => void;
+}
+
+const SOURCES: { value: ScanSource; label: string }[] = [
+  { value: ScanSource.LFO, label: 'LFO' },
+  { value: ScanSource.ENVELOPE, label: 'Envelope' },
+  { value: ScanSource.MANUAL, label: 'Mod Wheel' },
+];
+
+const DIRECTIONS: { value: ScanDirection; label: string }[] = [
+  { value: ScanDirection.FORWARD, label: 'Fwd' },
+  { value: ScanDirection.REVERSE, label: 'Rev' },
+  { value: ScanDirection.PING_PONG, label: 'Ping-Pong' },
+];
+
+const SHAPES: { value: LfoShape; label: string }[] = [
+  { value: LfoShape.SINE, label: 'Sine' },
+  { value: LfoShape.TRIANGLE, label: 'Tri' },
+  { value: LfoShape.SAW, label: 'Saw' },
+  { value: LfoShape.RANDOM, label: 'S&H' },
+];
+
+const SYNC_DIVISIONS: { beats: number; label: string }[] = [
+  { beats: 16, label: '4 bars' },
+  { beats: 8, label: '2 bars' },
+  { beats: 4, label: '1 bar' },
+  { beats: 2, label: '1/2' },
+  { beats: 1, label: '1/4' },
+  { beats: 0.5, label: '1/8' },
+  { beats: 0.25, label: '1/16' },
+];
+
+const ScanPanel: React.FC<ScanPanelProps> = ({ settings, onChange }) => {
+  const update = <K extends keyof ScanSettings>(key: K, value: ScanSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const segmented = <T extends string>(items: { value: T; label: string }[], current: T, onSelect: (value: T) => void) => (
+    <div className="flex bg-gray-950 p-0.5 rounded-lg border border-gray-800">
+      {items.map(item => (
+        <button
+          key={item.value}
+          onClick={() => onSelect(item.value)}
+          className={`flex-1 px-2 py-0.5 rounded-md text-xs transition ${current === item.value ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const sliderClass = 'w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500';
+  const labelClass = 'flex flex-col gap-1 text-[10px] text-gray-500 font-mono uppercase';
+
+  return (
+    <div className={`space-y-3 ${settings.enabled ? '' : 'opacity-60'}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        {segmented(SOURCES, settings.source, value => update('source', value))}
+        {settings.source !== ScanSource.MANUAL && segmented(DIRECTIONS, settings.direction, value => update('direction', value))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+        {settings.source === ScanSource.LFO && (
+          <>
+            <div className={labelClass}>
+              <span>Shape</span>
+              {segmented(SHAPES, settings.lfoShape, value => update('lfoShape', value))}
+            </div>
+            {settings.tempoSync ? (
+              <div className="flex gap-2">
+                <label className={labelClass}>
+                  <span>BPM</span>
+                  <input
+                    type="number"
+                    min={20}
+                    max={300}
+                    value={settings.bpm}
+                    onChange={(e) => update('bpm', Math.max(20, Math.min(300, parseFloat(e.target.value) || 120)))}
+                    className="w-16 bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300 focus:outline-none focus:border-purple-500"
+                  />
+                </label>
+                <label className={labelClass}>
+                  <span>Cycle</span>
+                  <select
+                    value={settings.syncBeats}
+                    onChange={(e) => update('syncBeats', parseFloat(e.target.value))}
+                    className="bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300 focus:outline-none"
+                  >
+                    {SYNC_DIVISIONS.map(d => (
+                      <option key={d.beats} value={d.beats}>{d.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            ) : (
+              <label className={labelClass}>
+                <span className="flex justify-between"><span>Rate</span><span className="text-gray-400">{settings.lfoRate.toFixed(2)} Hz</span></span>
+                <input
+                  type="range"
+                  min={0.01}
+                  max={20}
+                  step={0.01}
+                  value={settings.lfoRate}
+                  onChange={(e) => update('lfoRate', parseFloat(e.target.value))}
+                  className={sliderClass}
+                />
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.tempoSync}
+                onChange={(e) => update('tempoSync', e.target.checked)}
+                className="accent-purple-500"
+              />
+              Tempo sync
+            </label>
+          </>
+        )}
+
+        {settings.source === ScanSource.ENVELOPE && (
+          <label className={labelClass}>
+            <span className="flex justify-between"><span>Sweep Time</span><span className="text-gray-400">{settings.envelopeTime.toFixed(2)} s</span></span>
+            <input
+              type="range"
+              min={0.05}
+              max={20}
+              step={0.05}
+              value={settings.envelopeTime}
+              onChange={(e) => update('envelopeTime', parseFloat(e.target.value))}
+              className={sliderClass}
+            />
+          </label>
+        )}
+
+        {settings.source === ScanSource.MANUAL && (
+          <label className={`${labelClass} col-span-2`}>
+            <span className="flex justify-between"><span>Mod Wheel</span><span className="text-gray-400">{Math.round(settings.manual * 100)}%</span></span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.001}
+              value={settings.manual}
+              onChange={(e) => update('manual', parseFloat(e.target.value))}
+              className={sliderClass}
+            />
+          </label>
+        )}
+
+        <label className={labelClass}>
+          <span className="flex justify-between"><span>From</span><span className="text-gray-400">{Math.round(settings.rangeStart * 100)}%</span></span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={settings.rangeStart}
+            onChange={(e) => update('rangeStart', parseFloat(e.target.value))}
+            className={sliderClass}
+          />
+        </label>
+        <label className={labelClass}>
+          <span className="flex justify-between"><span>To</span><span className="text-gray-400">{Math.round(settings.rangeEnd * 100)}%</span></span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={settings.rangeEnd}
+            onChange={(e) => update('rangeEnd', parseFloat(e.target.value))}
+            className={sliderClass}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ScanPanel;
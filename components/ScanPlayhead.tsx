@@ -0,0 +1,30 @@
+import React, { useEffect, useRef } from 'react';
+
+interface ScanPlayheadProps {
+  getPosition: () => number; // scan position 0..1, sampled every animation frame
+}
+
+// Timeline marker that follows the scan by moving itself, without re-rendering its parent
+const ScanPlayhead: React.FC<ScanPlayheadProps> = ({ getPosition }) => {
+  const markerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let raf = 0;
+    const tick = () => {
+      if (markerRef.current) markerRef.current.style.left = `calc(${getPosition() * 100}% - 2px)`;
+      raf = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(raf);
+  }, [getPosition]);
+
+  return (
+    <div
+      ref={markerRef}
+      className="absolute top-1/2 -translate-y-1/2 w-1 h-4 rounded bg-purple-400 shadow-[0_0_8px_rgba(168,85,247,0.8)] pointer-events-none"
+      title="Scan playhead"
+    />
+  );
+};
+
+export default ScanPlayhead;
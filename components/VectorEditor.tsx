@@ -0,0 +1,248 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CurveType, VectorPoint, DEFAULT_VECTOR_POINTS } from '../types';
+import { sampleShape } from '../utils/vectorShape';
+
+interface VectorEditorProps {
+  points: VectorPoint[];
+  onChange: (points: VectorPoint[]) => void;
+}
+
+const CURVES: { value: CurveType; label: string }[] = [
+  { value: CurveType.LINE, label: 'Line' },
+  { value: CurveType.BEZIER, label: 'Curve' },
+  { value: CurveType.STEP, label: 'Step' },
+  { value: CurveType.SINE, label: 'Sine' },
+];
+
+const point = (x: number, y: number, curve: CurveType): VectorPoint => ({ x, y, curve, bend: 0 });
+
+const PRESETS: { label: string; points: VectorPoint[] }[] = [
+  { label: 'Triangle', points: DEFAULT_VECTOR_POINTS },
+  { label: 'Saw', points: [point(0, 0, CurveType.LINE), point(0.5, 1, CurveType.LINE), point(0.5, -1, CurveType.LINE)] },
+  { label: 'Square', points: [point(0, 1, CurveType.STEP), point(0.5, -1, CurveType.STEP)] },
+  { label: 'Sine', points: [point(0, 1, CurveType.SINE), point(0.5, -1, CurveType.SINE)] },
+];
+
+// Pixels from a point that still grab it
+const HIT_RADIUS = 8;
+
+const VectorEditor: React.FC<VectorEditorProps> = ({ points, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [selected, setSelected] = useState(0);
+  const [snap, setSnap] = useState(true);
+  const [columns, setColumns] = useState(8);
+  const [rows, setRows] = useState(4);
+  // Point being dragged
+  const dragRef = useRef<number | null>(null);
+
+  const active = Math.min(selected, points.length - 1);
+  const current = points[active];
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const dpr = window.devicePixelRatio;
+    canvas.width = rect.width * dpr;
+    canvas.height = rect.height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    const { width, height } = rect;
+    const toY = (y: number) => ((1 - y) / 2) * height;
+
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.strokeStyle = snap ? '#1f2937' : '#18202d';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let c = 1; c < columns; c++) {
+      ctx.moveTo((c / columns) * width, 0);
+      ctx.lineTo((c / columns) * width, height);
+    }
+    for (let r = 1; r < rows; r++) {
+      ctx.moveTo(0, (r / rows) * height);
+      ctx.lineTo(width, (r / rows) * height);
+    }
+    ctx.stroke();
+    ctx.strokeStyle = '#334155';
+    ctx.beginPath();
+    ctx.moveTo(0, height / 2);
+    ctx.lineTo(width, height / 2);
+    ctx.stroke();
+
+    const curve = sampleShape(points, Math.max(2, Math.round(width)));
+    ctx.strokeStyle = '#f472b6';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    curve.forEach((y, x) => (x === 0 ? ctx.moveTo(x, toY(y)) : ctx.lineTo(x, toY(y))));
+    ctx.stroke();
+
+    points.forEach((p, i) => {
+      ctx.beginPath();
+      ctx.arc(p.x * width, toY(p.y), i === active ? 5 : 4, 0, Math.PI * 2);
+      ctx.fillStyle = i === active ? '#fdf2f8' : '#f472b6';
+      ctx.fill();
+    });
+  }, [points, active, snap, columns, rows]);
+
+  const getPosition = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    let x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    let y = Math.max(-1, Math.min(1, 1 - ((e.clientY - rect.top) / rect.height) * 2));
+    if (snap) {
+      x = Math.round(x * columns) / columns;
+      y = (Math.round(((y + 1) / 2) * rows) / rows) * 2 - 1;
+    }
+    return { x, y };
+  };
+
+  const findPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = e.clientX - rect.left;
+    const py = e.clientY - rect.top;
+    return points.findIndex(p => Math.hypot(p.x * rect.width - px, ((1 - p.y) / 2) * rect.height - py) <= HIT_RADIUS);
+  };
+
+  // Points keep their order: x stays between the neighbours and the first point stays at 0
+  const movePoint = (index: number, x: number, y: number) => {
+    const min = index === 0 ? 0 : points[index - 1].x;
+    const max = index === 0 ? 0 : index < points.length - 1 ? points[index + 1].x : 1;
+    onChange(points.map((p, i) => (i === index ? { ...p, x: Math.max(min, Math.min(max, x)), y } : p)));
+  };
+
+  const updatePoint = (changes: Partial<VectorPoint>) => {
+    onChange(points.map((p, i) => (i === active ? { ...p, ...changes } : p)));
+  };
+
+  const deletePoint = (index: number) => {
+    if (index < 1 || points.length <= 2) return;
+    onChange(points.filter((_, i) => i !== index));
+    setSelected(index - 1);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const hit = findPoint(e);
+    if (hit >= 0) {
+      setSelected(hit);
+      dragRef.current = hit;
+      return;
+    }
+    // A new point takes the curve of the segment it splits
+    const { x, y } = getPosition(e);
+    const index = Math.max(1, points.filter(p => p.x <= x).length);
+    const previous = points[index - 1];
+    onChange([...points.slice(0, index), { x, y, curve: previous.curve, bend: previous.bend }, ...points.slice(index)]);
+    setSelected(index);
+    dragRef.current = index;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragRef.current === null) return;
+    const { x, y } = getPosition(e);
+    movePoint(dragRef.current, x, y);
+  };
+
+  const gridInput = (label: string, value: number, set: (value: number) => void) => (
+    <label className="flex items-center gap-1">
+      {label}
+      <input
+        type="number"
+        min={1}
+        max={64}
+        value={value}
+        onChange={(e) => set(Math.max(1, Math.min(64, parseInt(e.target.value) || 1)))}
+        className="w-12 bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-200 focus:outline-none focus:border-pink-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-1">
+        {PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => {
+              onChange(preset.points);
+              setSelected(0);
+            }}
+            className="py-1 rounded-md text-xs bg-gray-800 hover:bg-gray-700 text-gray-300 transition"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        className="w-full h-40 rounded cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        onPointerCancel={() => { dragRef.current = null; }}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          deletePoint(findPoint(e));
+        }}
+      />
+      <p className="text-xs text-gray-500">Click to add a point, drag to move it, right-click to remove it.</p>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={snap} onChange={(e) => setSnap(e.target.checked)} className="accent-pink-500" />
+          Snap
+        </label>
+        {gridInput('Columns', columns, setColumns)}
+        {gridInput('Rows', rows, setRows)}
+      </div>
+
+      {current && (
+        <div className="space-y-2 pt-3 border-t border-gray-800">
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Point {active + 1} of {points.length}</span>
+            <span className="font-mono text-gray-500">{current.x.toFixed(3)}, {current.y.toFixed(3)}</span>
+          </div>
+          <div className="grid grid-cols-4 gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+            {CURVES.map(item => (
+              <button
+                key={item.value}
+                onClick={() => updatePoint({ curve: item.value })}
+                className={`py-1 rounded-md text-xs transition ${current.curve === item.value ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+          {current.curve === CurveType.BEZIER && (
+            <label className="flex items-center gap-3 text-xs text-gray-400">
+              <span className="w-10">Bend</span>
+              <input
+                type="range"
+                min={-1}
+                max={1}
+                step={0.01}
+                value={current.bend}
+                onChange={(e) => updatePoint({ bend: parseFloat(e.target.value) })}
+                className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
+              />
+            </label>
+          )}
+          <button
+            onClick={() => deletePoint(active)}
+            disabled={active === 0 || points.length <= 2}
+            className="text-xs text-red-400 hover:text-red-300 transition disabled:opacity-40"
+          >
+            Remove Point
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VectorEditor;
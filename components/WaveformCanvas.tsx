@@ -1,18 +1,23 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { FRAME_SIZE } from '../types';
+import { DrawSettings, DrawTool, DrawSymmetry } from '../types';
+import { applyDab, applySymmetry, drawLine, snapToGrid } from '../utils/drawTools';
 
 interface WaveformCanvasProps {
   data: Float32Array;
   onChange: (newData: Float32Array) => void;
   isActive: boolean;
+  settings: DrawSettings;
+  onStrokeStart?: () => void; // once per brush stroke, before its first onChange
 }
 
-const WaveformCanvas: React.FC<WaveformCanvasProps> = ({ data, onChange, isActive }) => {
+const WaveformCanvas: React.FC<WaveformCanvasProps> = ({ data, onChange, isActive, settings, onStrokeStart }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   
   // Track previous position for interpolation
   const prevPosRef = useRef<{ index: number; amp: number } | null>(null);
+  // Line tool: where the line starts and the frame as it was before it
+  const lineRef = useRef<{ start: { index: number; amp: number }; base: Float32Array } | null>(null);
   // Local ref to handle rapid updates without waiting for React render cycle
   const localDataRef = useRef<Float32Array>(data);
 
@@ -32,6 +37,25 @@ const WaveformCanvas: React.FC<WaveformCanvasProps> = ({ data, onChange, isActiv
     ctx.lineTo(width, height / 2);
     ctx.stroke();
 
+    // Snap grid
+    if (isActive && (settings.snapX || settings.snapY)) {
+      ctx.strokeStyle = '#1e293b';
+      ctx.beginPath();
+      if (settings.snapX) {
+        for (let c = 1; c < settings.gridX; c++) {
+          ctx.moveTo((c / settings.gridX) * width, 0);
+          ctx.lineTo((c / settings.gridX) * width, height);
+        }
+      }
+      if (settings.snapY) {
+        for (let r = 1; r < settings.gridY; r++) {
+          ctx.moveTo(0, (r / settings.gridY) * height);
+          ctx.lineTo(width, (r / settings.gridY) * height);
+        }
+      }
+      ctx.stroke();
+    }
+
     // Waveform
     ctx.strokeStyle = '#22d3ee'; // cyan-400
     ctx.lineWidth = 2;
@@ -39,8 +63,8 @@ const WaveformCanvas: React.FC<WaveformCanvasProps> = ({ data, onChange, isActiv
     
     const buffer = localDataRef.current;
     
-    for (let i = 0; i < FRAME_SIZE; i++) {
-      const x = (i / FRAME_SIZE) * width;
+    for (let i = 0; i < buffer.length; i++) {
+      const x = (i / buffer.length) * width;
       // Map -1..1 to height..0
       const y = ((buffer[i] * -1 + 1) / 2) * height;
       
@@ -69,7 +93,7 @@ const WaveformCanvas: React.FC<WaveformCanvasProps> = ({ data, onChange, isActiv
 
     draw(ctx, rect.width, rect.height);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [data]);
+  }, [data, isActive, settings]);
 
   const getCursorPosition = (e: React.MouseEvent | React.TouchEvent, canvas: HTMLCanvasElement) => {
     const rect = canvas.getBoundingClientRect();
@@ -79,25 +103,12 @@ const WaveformCanvas: React.FC<WaveformCanvasProps> = ({ data, onChange, isActiv
     const x = Math.max(0, Math.min(clientX - rect.left, rect.width));
     const y = Math.max(0, Math.min(clientY - rect.top, rect.height));
     
-    const index = Math.floor((x / rect.width) * FRAME_SIZE);
+    const size = localDataRef.current.length;
+    const index = Math.min(size - 1, Math.floor((x / rect.width) * size));
     // Invert Y because canvas 0 is top
     const amp = -1 * (((y / rect.height) * 2) - 1);
     
-    return { index, amp };
-  };
-
-  const applyBrush = (buffer: Float32Array, centerIndex: number, amp: number) => {
-    const brushSize = 15; // Width of the smoothing brush
-    
-    for (let i = -brushSize; i <= brushSize; i++) {
-        const idx = centerIndex + i;
-        if (idx >= 0 && idx < FRAME_SIZE) {
-            // Basic linear falloff brush
-            const falloff = 1 - (Math.abs(i) / brushSize);
-            // Soft mix with existing
-            buffer[idx] = buffer[idx] * (1 - falloff) + amp * falloff;
-        }
-    }
+    return snapToGrid(index, amp, settings, size);
   };
 
   const handleStart = (e: React.MouseEvent | React.TouchEvent) => {
@@ -108,8 +119,15 @@ const WaveformCanvas: React.FC<WaveformCanvasProps> = ({ data, onChange, isActiv
     
     const { index, amp } = getCursorPosition(e, canvas);
     const newData = new Float32Array(localDataRef.current);
+    onStrokeStart?.();
     
-    applyBrush(newData, index, amp);
+    if (settings.tool === DrawTool.LINE) {
+      lineRef.current = { start: { index, amp }, base: localDataRef.current };
+      drawLine(newData, { index, amp }, { index, amp });
+    } else {
+      applyDab(newData, index, amp, settings);
+    }
+    if (settings.symmetry !== DrawSymmetry.NONE) applySymmetry(newData, settings.symmetry, index);
     
     prevPosRef.current = { index, amp };
     localDataRef.current = newData;
@@ -123,9 +141,13 @@ const WaveformCanvas: React.FC<WaveformCanvasProps> = ({ data, onChange, isActiv
     
     const { index: currIndex, amp: currAmp } = getCursorPosition(e, canvas);
     const prev = prevPosRef.current;
-    const newData = new Float32Array(localDataRef.current);
+    const line = lineRef.current;
+    // A line is redrawn from the frame as it was when the line started
+    const newData = new Float32Array(line ? line.base : localDataRef.current);
     
-    if (prev) {
+    if (line) {
+        drawLine(newData, line.start, { index: currIndex, amp: currAmp });
+    } else if (prev) {
         const startIdx = prev.index;
         const endIdx = currIndex;
         const steps = Math.abs(endIdx - startIdx);
@@ -134,17 +156,20 @@ const WaveformCanvas: React.FC<WaveformCanvasProps> = ({ data, onChange, isActiv
         // Interpolate between points to fill gaps from fast movement
         if (steps === 0) {
            // No horizontal movement, just update amplitude
-           applyBrush(newData, currIndex, currAmp);
+           applyDab(newData, currIndex, currAmp, settings);
         } else {
            for (let i = 0; i <= steps; i++) {
                const idx = startIdx + (i * stepDir);
                const t = i / steps;
                const interpolatedAmp = prev.amp + (currAmp - prev.amp) * t;
-               applyBrush(newData, idx, interpolatedAmp);
+               applyDab(newData, idx, interpolatedAmp, settings);
            }
         }
     } else {
-        applyBrush(newData, currIndex, currAmp);
+        applyDab(newData, currIndex, currAmp, settings);
+    }
+    if (settings.symmetry !== DrawSymmetry.NONE) {
+        applySymmetry(newData, settings.symmetry, line ? line.start.index : currIndex);
     }
 
     prevPosRef.current = { index: currIndex, amp: currAmp };
@@ -155,6 +180,7 @@ const WaveformCanvas: React.FC<WaveformCanvasProps> = ({ data, onChange, isActiv
   const handleEnd = () => {
     setIsDrawing(false);
     prevPosRef.current = null;
+    lineRef.current = null;
   };
 
   return (
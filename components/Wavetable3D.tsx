@@ -1,12 +1,52 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { FRAME_SIZE } from '../types';
+import { FRAME_SIZE, ViewMode, SpectrumStyle } from '../types';
+import { getHarmonicMagnitudes, amplitudeToDb } from '../utils/fft';
 
 interface Wavetable3DProps {
   frames: Float32Array[];
   currentIndex: number;
   onSelectFrame: (index: number) => void;
+  viewMode?: ViewMode;
+  spectrumStyle?: SpectrumStyle;
+  harmonicRange?: [number, number]; // inclusive, 1-based harmonic numbers
+  playhead?: (() => number) | null; // scan position 0..1, sampled and drawn over the table every animation frame
+  previewFrames?: Float32Array[] | null; // drawn instead of frames until committed, not selectable
 }
 
+const DB_FLOOR = -80;
+const DEFAULT_HARMONIC_RANGE: [number, number] = [1, 128];
+
+// Magnitude spectra in dB, cached per frame buffer so an edit only re-analyses the frame it replaced
+const spectrumCache = new WeakMap<Float32Array, Float32Array>();
+
+const getSpectrumDb = (frame: Float32Array): Float32Array => {
+  let spectrum = spectrumCache.get(frame);
+  if (!spectrum) {
+    spectrum = getHarmonicMagnitudes(frame).map(amp => amplitudeToDb(amp, DB_FLOOR));
+    spectrumCache.set(frame, spectrum);
+  }
+  return spectrum;
+};
+
+const clampHarmonicRange = ([from, to]: [number, number], frameSize: number): [number, number] => {
+  const maxHarmonic = frameSize / 2;
+  const hMin = Math.max(1, Math.min(Math.round(from), maxHarmonic));
+  const hMax = Math.max(hMin, Math.min(Math.round(to), maxHarmonic));
+  return [hMin, hMax];
+};
+
+// Dark slate -> purple -> cyan -> white
+const HEAT_STOPS: [number, number, number][] = [[15, 23, 42], [168, 85, 247], [34, 211, 238], [255, 255, 255]];
+
+const heatColor = (level: number): [number, number, number] => {
+  const pos = Math.max(0, Math.min(1, level)) * (HEAT_STOPS.length - 1);
+  const i = Math.min(Math.floor(pos), HEAT_STOPS.length - 2);
+  const t = pos - i;
+  const a = HEAT_STOPS[i];
+  const b = HEAT_STOPS[i + 1];
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+};
+
 const ABSURD_TITLES = [
   "AUDIO LASAGNA", "MATH JAIL", "WAVEFORM PRISON", "SPECTRAL SOUP", 
   "NON-EUCLIDEAN BAGEL", "HARMONIC DISTRESS", "FOURIER'S NIGHTMARE",
@@ -23,8 +63,19 @@ const CONSOLE_WHISPERS = [
   "Why are we here? Just to oscillate?"
 ];
 
-const Wavetable3D: React.FC<Wavetable3DProps> = ({ frames, currentIndex, onSelectFrame }) => {
+const Wavetable3D: React.FC<Wavetable3DProps> = ({
+  frames,
+  currentIndex,
+  onSelectFrame,
+  viewMode = ViewMode.WAVEFORM,
+  spectrumStyle = SpectrumStyle.WATERFALL,
+  harmonicRange = DEFAULT_HARMONIC_RANGE,
+  playhead = null,
+  previewFrames = null,
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The playhead moves every animation frame; keeping it on its own canvas avoids redrawing the table
+  const overlayRef = useRef<HTMLCanvasElement>(null);
   const [title, setTitle] = useState("3D VISUALIZER");
   const [sentience, setSentience] = useState(0);
   const [sentienceLabel, setSentienceLabel] = useState("Sentience");
@@ -68,6 +119,10 @@ const Wavetable3D: React.FC<Wavetable3DProps> = ({ frames, currentIndex, onSelec
     };
   }, []);
 
+  const isPreview = previewFrames !== null;
+  const shownFrames = previewFrames ?? frames;
+  const highlightIndex = isPreview ? -1 : currentIndex;
+
   // Drawing Logic
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -85,12 +140,18 @@ const Wavetable3D: React.FC<Wavetable3DProps> = ({ frames, currentIndex, onSelec
 
     ctx.clearRect(0, 0, width, height);
 
-    const numFrames = frames.length;
+    if (viewMode === ViewMode.SPECTRUM && spectrumStyle === SpectrumStyle.HEATMAP) {
+      drawHeatmap(ctx, width, height);
+      return;
+    }
+
+    const numFrames = shownFrames.length;
     const perspectiveStrength = 0.25;
+    const [hMin, hMax] = clampHarmonicRange(harmonicRange, shownFrames[0]?.length ?? FRAME_SIZE);
     
     // Draw from back to front
     for (let f = numFrames - 1; f >= 0; f--) {
-      const isCurrent = f === currentIndex;
+      const isCurrent = f === highlightIndex;
       const frameProgress = f / numFrames; // 0 (front) to 1 (back)
       
       // Perspective calculations
@@ -100,17 +161,36 @@ const Wavetable3D: React.FC<Wavetable3DProps> = ({ frames, currentIndex, onSelec
       const frameWidth = width * scale;
 
       ctx.beginPath();
-      const data = frames[f];
-      
-      const step = 8; 
       
-      for (let i = 0; i < FRAME_SIZE; i += step) {
-        const x = xMargin + (i / FRAME_SIZE) * frameWidth;
-        const amp = data[i];
-        const y = yOffset - (amp * 35 * scale); 
+      if (viewMode === ViewMode.SPECTRUM) {
+        // Waterfall: one magnitude curve per frame, 0 dB at the top of the ridge
+        const spectrum = getSpectrumDb(shownFrames[f]);
+        const columns = Math.max(1, Math.min(hMax - hMin + 1, Math.floor(frameWidth / 2)));
+        for (let c = 0; c < columns; c++) {
+          // Bucket harmonics per column and keep the loudest, so peaks survive the decimation
+          const from = hMin + Math.floor((c / columns) * (hMax - hMin + 1));
+          const to = Math.max(from + 1, hMin + Math.floor(((c + 1) / columns) * (hMax - hMin + 1)));
+          let db = DB_FLOOR;
+          for (let h = from; h < to; h++) db = Math.max(db, spectrum[h - 1]);
+
+          const x = xMargin + (c / Math.max(1, columns - 1)) * frameWidth;
+          const y = yOffset - ((db - DB_FLOOR) / -DB_FLOOR) * 50 * scale;
+          if (c === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+      } else {
+        const data = shownFrames[f];
+        const size = data.length;
+        const step = 8; 
         
-        if (i === 0) ctx.moveTo(x, y);
-        else ctx.lineTo(x, y);
+        for (let i = 0; i < size; i += step) {
+          const x = xMargin + (i / size) * frameWidth;
+          const amp = data[i];
+          const y = yOffset - (amp * 35 * scale); 
+          
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
       }
 
       // Gradient Stroke
@@ -138,14 +218,100 @@ const Wavetable3D: React.FC<Wavetable3DProps> = ({ frames, currentIndex, onSelec
       ctx.fillStyle = '#0f172a'; // Match bg-gray-900 (approx)
       ctx.fill();
     }
-  }, [frames, currentIndex]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shownFrames, highlightIndex, viewMode, spectrumStyle, harmonicRange[0], harmonicRange[1]]);
+
+  // Heatmap: frames top to bottom, harmonics left to right, brightness = level in dB
+  const drawHeatmap = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    const numFrames = shownFrames.length;
+    const [hMin, hMax] = clampHarmonicRange(harmonicRange, shownFrames[0]?.length ?? FRAME_SIZE);
+    const columns = hMax - hMin + 1;
+
+    const image = new ImageData(columns, numFrames);
+    for (let f = 0; f < numFrames; f++) {
+      const spectrum = getSpectrumDb(shownFrames[f]);
+      for (let c = 0; c < columns; c++) {
+        const level = (spectrum[hMin - 1 + c] - DB_FLOOR) / -DB_FLOOR;
+        const [r, g, b] = heatColor(level);
+        const p = (f * columns + c) * 4;
+        image.data[p] = r;
+        image.data[p + 1] = g;
+        image.data[p + 2] = b;
+        image.data[p + 3] = 255;
+      }
+    }
+
+    const offscreen = document.createElement('canvas');
+    offscreen.width = columns;
+    offscreen.height = numFrames;
+    offscreen.getContext('2d')?.putImageData(image, 0, 0);
+
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(offscreen, 0, 0, width, height);
+    if (highlightIndex < 0) return;
+
+    const rowHeight = height / numFrames;
+    ctx.strokeStyle = '#22d3ee';
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(0.75, highlightIndex * rowHeight + 0.75, width - 1.5, Math.max(1, rowHeight - 1.5));
+  };
+
+  // Playhead Overlay
+  useEffect(() => {
+    const canvas = overlayRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const dpr = window.devicePixelRatio;
+    if (canvas.width !== Math.round(rect.width * dpr) || canvas.height !== Math.round(rect.height * dpr)) {
+      canvas.width = Math.round(rect.width * dpr);
+      canvas.height = Math.round(rect.height * dpr);
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, rect.width, rect.height);
+    if (playhead === null || isPreview) return;
+
+    const numFrames = frames.length;
+    const isHeatmap = viewMode === ViewMode.SPECTRUM && spectrumStyle === SpectrumStyle.HEATMAP;
+    let raf = 0;
+    const draw = () => {
+      const framePos = playhead() * (numFrames - 1);
+      // Same frame -> y mapping as the table drawing (and the click handler)
+      const y = isHeatmap
+        ? ((framePos + 0.5) / numFrames) * rect.height
+        : rect.height * 0.15 + (framePos / numFrames) * rect.height * 0.7;
+
+      ctx.clearRect(0, 0, rect.width, rect.height);
+      ctx.strokeStyle = 'rgba(168, 85, 247, 0.9)';
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(rect.width, y);
+      ctx.stroke();
+
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#a855f7';
+      ctx.beginPath();
+      ctx.moveTo(0, y - 5);
+      ctx.lineTo(7, y);
+      ctx.lineTo(0, y + 5);
+      ctx.fill();
+      raf = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(raf);
+  }, [playhead, isPreview, frames.length, viewMode, spectrumStyle]);
 
   const handleClick = (e: React.MouseEvent) => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas || isPreview) return;
     const rect = canvas.getBoundingClientRect();
     const y = e.clientY - rect.top;
-    const percent = (y - rect.height * 0.15) / (rect.height * 0.7);
+    const isHeatmap = viewMode === ViewMode.SPECTRUM && spectrumStyle === SpectrumStyle.HEATMAP;
+    const percent = isHeatmap ? y / rect.height : (y - rect.height * 0.15) / (rect.height * 0.7);
     const index = Math.floor(percent * frames.length);
     const clampedIndex = Math.max(0, Math.min(frames.length - 1, index));
     onSelectFrame(clampedIndex);
@@ -155,10 +321,17 @@ const Wavetable3D: React.FC<Wavetable3DProps> = ({ frames, currentIndex, onSelec
     <div className="relative w-full h-64 bg-gray-900 rounded-lg border border-gray-700 overflow-hidden group shadow-inner">
       <canvas 
         ref={canvasRef}
-        className="w-full h-full cursor-pointer"
+        className={`w-full h-full ${isPreview ? 'cursor-default' : 'cursor-pointer'}`}
         onClick={handleClick}
       />
+      <canvas ref={overlayRef} className="absolute inset-0 w-full h-full pointer-events-none" />
       
+      {isPreview && (
+        <div className="absolute top-2 left-2 px-2 py-0.5 rounded bg-green-900/60 border border-green-700 text-[10px] font-mono text-green-300 pointer-events-none">
+          PREVIEW
+        </div>
+      )}
+
       {/* Dynamic Title */}
       <div className="absolute top-2 right-2 text-xs font-mono pointer-events-none transition-all duration-300 text-cyan-500/50 group-hover:text-cyan-400">
         {title}
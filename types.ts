@@ -1,4 +1,7 @@
-export const FRAME_SIZE = 2048;
+export const FRAME_SIZE = 2048;   // cycle length of a new table
+// Cycle lengths a table can be switched to; powers of two so the FFT and spectral resampling are exact
+export const CYCLE_LENGTHS = [256, 512, 1024, 2048, 4096];
+export const MAX_FRAME_SIZE = 4096;
 export const MAX_FRAMES = 256;
 
 export interface WavetableState {
@@ -10,11 +13,455 @@ export enum GeneratorMode {
   DRAW = 'DRAW',
   MATH = 'MATH',
   HARMONIC = 'HARMONIC',
-  IMAGE = 'IMAGE'
+  IMAGE = 'IMAGE',
+  LANES = 'LANES',
+  SAMPLE = 'SAMPLE',
+  VECTOR = 'VECTOR'
+}
+
+// Freehand tools of the DRAW canvas
+export enum DrawTool {
+  BRUSH = 'BRUSH',
+  LINE = 'LINE',       // straight line from press to release
+  SMOOTH = 'SMOOTH',   // blurs the samples under the brush
+  ERASE = 'ERASE'      // pulls the samples under the brush to zero
+}
+
+export enum BrushFalloff {
+  LINEAR = 'LINEAR',
+  SOFT = 'SOFT',       // raised cosine
+  HARD = 'HARD'        // full strength to the edge
+}
+
+// Kept balanced while drawing: the part of the cycle under the cursor rebuilds the rest
+export enum DrawSymmetry {
+  NONE = 'NONE',
+  MIRROR = 'MIRROR',   // second half is the first half upside down (odd harmonics only)
+  ODD = 'ODD',         // x[N - i] = -x[i], like a sine
+  EVEN = 'EVEN'        // x[N - i] = x[i], like a cosine
+}
+
+export interface DrawSettings {
+  tool: DrawTool;
+  brushSize: number;   // half-width in samples of a FRAME_SIZE cycle, scaled for other lengths
+  falloff: BrushFalloff;
+  snapX: boolean;      // snap to gridX columns across the cycle
+  snapY: boolean;      // snap to gridY rows from -1 to 1
+  gridX: number;
+  gridY: number;
+  symmetry: DrawSymmetry;
+}
+
+export const DEFAULT_DRAW_SETTINGS: DrawSettings = {
+  tool: DrawTool.BRUSH,
+  brushSize: 15,
+  falloff: BrushFalloff.LINEAR,
+  snapX: false,
+  snapY: false,
+  gridX: 16,
+  gridY: 8,
+  symmetry: DrawSymmetry.NONE,
+};
+
+// What the MATH generator writes: the selected frame, a new table, or a range of the current one
+export enum FormulaScope {
+  FRAME = 'FRAME',
+  TABLE = 'TABLE',
+  RANGE = 'RANGE'
+}
+
+export interface FormulaTableSettings {
+  scope: FormulaScope;
+  frameCount: number;  // TABLE: size of the generated table
+  rangeStart: number;  // RANGE: first and last frame index, inclusive
+  rangeEnd: number;
+}
+
+export const DEFAULT_FORMULA_TABLE_SETTINGS: FormulaTableSettings = {
+  scope: FormulaScope.FRAME,
+  frameCount: 64,
+  rangeStart: 0,
+  rangeEnd: 0,
+};
+
+// How a vector shape gets from one breakpoint to the next
+export enum CurveType {
+  LINE = 'LINE',
+  BEZIER = 'BEZIER',   // quadratic, bent toward one corner by the point's `bend`
+  STEP = 'STEP',       // holds the level until the next point
+  SINE = 'SINE'        // half-cosine ease between the two levels
+}
+
+// One breakpoint of a VECTOR frame; the segment leaving it is drawn with its curve
+export interface VectorPoint {
+  x: number;         // 0..1 through the cycle, sorted; the first point sits at 0
+  y: number;         // -1..1
+  curve: CurveType;
+  bend: number;      // BEZIER: -1..1, 0 is a straight line
+}
+
+// Triangle; the last segment wraps back to the first point at the end of the cycle
+export const DEFAULT_VECTOR_POINTS: VectorPoint[] = [
+  { x: 0, y: 0, curve: CurveType.LINE, bend: 0 },
+  { x: 0.25, y: 1, curve: CurveType.LINE, bend: 0 },
+  { x: 0.75, y: -1, curve: CurveType.LINE, bend: 0 },
+];
+
+// How a frame was generated, so its parameters survive a save/reload. Frames without a
+// source were drawn, imported or derived (morph, copy) and are only stored as samples.
+export interface FrameSource {
+  mode: GeneratorMode;
+  formula?: string;
+  harmonics?: number[];
+  phases?: number[];
+  shape?: VectorPoint[];
+}
+
+// Additive editor resolution; 512 partials fit a 2048-sample frame with room to spare
+export const MAX_PARTIALS = 512;
+
+// Partials 1..N: peak amplitude and phase in radians of amp * sin(h * x + phase)
+export interface HarmonicSpectrum {
+  amplitudes: number[];
+  phases: number[];
+}
+
+export enum AmplitudeScale {
+  LINEAR = 'LINEAR',
+  DB = 'DB'
+}
+
+export enum ViewMode {
+  WAVEFORM = 'WAVEFORM',
+  SPECTRUM = 'SPECTRUM'
+}
+
+export enum SpectrumStyle {
+  WATERFALL = 'WATERFALL',
+  HEATMAP = 'HEATMAP'
 }
 
 // Simple complex number for FFT/DFT
 export interface Complex {
   re: number;
   im: number;
-}
\ No newline at end of file
+}
+
+// 16 and 24 are integer PCM, 32 is IEEE float
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface WavExportOptions {
+  bitDepth: WavBitDepth;
+  dither: boolean;        // TPDF dither, integer formats only
+  sampleRate: number;
+  includeClm: boolean;    // Serum 'clm ' chunk announcing the cycle length
+  normalize: boolean;     // scale the whole table to a common peak of 0 dBFS
+}
+
+export const DEFAULT_WAV_EXPORT_OPTIONS: WavExportOptions = {
+  bitDepth: 32,
+  dither: true,
+  sampleRate: 44100,
+  includeClm: true,
+  normalize: false,
+};
+
+
+export interface RenderSettings {
+  sequence: string;       // note steps, e.g. "C2 E2+G2 - C3": '+' joins a chord, '-' is a rest
+  noteLength: number;     // seconds per step
+  sweepTime: number;      // seconds to sweep the position from the first to the last frame
+}
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+  sequence: 'C2 C3 G2 C3',
+  noteLength: 1,
+  sweepTime: 4,
+};
+
+export enum ExportFormat {
+  WAV = 'WAV',
+  SURGE_WT = 'SURGE_WT',
+  VITAL = 'VITAL',
+  PNG = 'PNG'
+}
+
+// What a PNG export draws: one row per frame, either the samples or the harmonic magnitudes
+export enum ImageExportContent {
+  WAVEFORM = 'WAVEFORM',
+  SPECTRUM = 'SPECTRUM'
+}
+
+export enum ImageEncoding {
+  GRAY8 = 'GRAY8',   // viewable 8-bit greyscale
+  RG16 = 'RG16'      // 16 bits per value split over red (high byte) and green (low byte)
+}
+
+export interface ImageExportOptions {
+  content: ImageExportContent;
+  encoding: ImageEncoding;
+}
+
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  content: ImageExportContent.WAVEFORM,
+  encoding: ImageEncoding.RG16,
+};
+
+export interface ExportSettings {
+  format: ExportFormat;
+  wav: WavExportOptions;
+  surgeInt16: boolean;    // Surge .wt: int16 instead of float32 samples
+  image: ImageExportOptions;
+  bandLimitHarmonics: number | null; // remove harmonics above N before writing, null = off
+  render: RenderSettings; // offline preview render, written with the WAV options
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: ExportFormat.WAV,
+  wav: DEFAULT_WAV_EXPORT_OPTIONS,
+  surgeInt16: false,
+  image: DEFAULT_IMAGE_EXPORT_OPTIONS,
+  bandLimitHarmonics: null,
+  render: DEFAULT_RENDER_SETTINGS,
+};
+
+
+export enum MorphMode {
+  CROSSFADE = 'CROSSFADE',         // sample-wise blend
+  SPECTRAL = 'SPECTRAL',           // blend harmonic magnitudes and phases
+  ZERO_CROSSING = 'ZERO_CROSSING', // blend after lining up the rising zero crossings
+  POINTS = 'POINTS'                // move the breakpoints of vector frames; others crossfade
+}
+
+export enum EasingCurve {
+  LINEAR = 'LINEAR',
+  EASE_IN = 'EASE_IN',
+  EASE_OUT = 'EASE_OUT',
+  EASE_IN_OUT = 'EASE_IN_OUT',
+  EXPONENTIAL = 'EXPONENTIAL',
+  CUSTOM = 'CUSTOM'
+}
+
+export interface MorphSettings {
+  mode: MorphMode;
+  easing: EasingCurve;
+  exponent: number;                         // EXPONENTIAL: >1 starts slow, <1 starts fast
+  bezier: [number, number, number, number]; // CUSTOM: x1, y1, x2, y2 like CSS cubic-bezier()
+}
+
+export const DEFAULT_MORPH_SETTINGS: MorphSettings = {
+  mode: MorphMode.CROSSFADE,
+  easing: EasingCurve.LINEAR,
+  exponent: 2,
+  bezier: [0.25, 0.1, 0.25, 1],
+};
+
+export interface TableResizeSettings {
+  frameCount: number;
+  mode: MorphMode;    // how frames between two source frames are blended
+  average: boolean;   // when shrinking, each new frame averages the source frames it replaces
+}
+
+export const DEFAULT_TABLE_RESIZE_SETTINGS: TableResizeSettings = {
+  frameCount: 256,
+  mode: MorphMode.SPECTRAL,
+  average: false,
+};
+
+// How an image becomes frames
+export enum ImageMapping {
+  SINGLE = 'SINGLE',           // whole image averaged into the selected frame
+  ROWS = 'ROWS',               // each row is a frame, brightness is amplitude
+  SPECTROGRAM = 'SPECTROGRAM'  // x = harmonic, y = frame, brightness = magnitude
+}
+
+export enum ImageChannel {
+  LUMINANCE = 'LUMINANCE',
+  RED = 'RED',
+  GREEN = 'GREEN',
+  BLUE = 'BLUE',
+  ALPHA = 'ALPHA',
+  PACKED16 = 'PACKED16'   // red high byte + green low byte, as written by the RG16 PNG export
+}
+
+export interface ImageSettings {
+  mapping: ImageMapping;
+  channel: ImageChannel;
+  invert: boolean;
+  contrast: number;        // 1 = unchanged, scales around mid grey
+  frameCount: number;      // ROWS / SPECTROGRAM: image height is resampled to this
+  harmonicCount: number;   // SPECTROGRAM: image width is resampled to this many partials
+}
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+  mapping: ImageMapping.ROWS,
+  channel: ImageChannel.LUMINANCE,
+  invert: false,
+  contrast: 1,
+  frameCount: 64,
+  harmonicCount: 256,
+};
+
+// Per-frame processes; every one takes a single 0..1 amount (see utils/processing.ts)
+export enum ProcessType {
+  REMOVE_DC = 'REMOVE_DC',
+  NORMALIZE = 'NORMALIZE',
+  NORMALIZE_TABLE = 'NORMALIZE_TABLE',
+  SMOOTH = 'SMOOTH',
+  WAVEFOLD = 'WAVEFOLD',
+  HARD_CLIP = 'HARD_CLIP',
+  SOFT_CLIP = 'SOFT_CLIP',
+  BEND = 'BEND',
+  PHASE_DISTORT = 'PHASE_DISTORT',
+  MIRROR = 'MIRROR',
+  INVERT = 'INVERT',
+  REVERSE = 'REVERSE',
+  SYNC = 'SYNC',
+  PWM = 'PWM',
+  BIT_CRUSH = 'BIT_CRUSH',
+  REMOVE_FUNDAMENTAL = 'REMOVE_FUNDAMENTAL'
+}
+
+export enum ProcessScope {
+  FRAME = 'FRAME',
+  SELECTION = 'SELECTION',   // frames selected in the timeline strip
+  RANGE = 'RANGE',
+  TABLE = 'TABLE'
+}
+
+export interface ProcessSettings {
+  type: ProcessType;
+  scope: ProcessScope;
+  amount: number;       // 0..1, at the first frame of the range
+  ramp: boolean;        // glide the amount to amountEnd at the last frame
+  amountEnd: number;
+  rangeStart: number;   // RANGE: first and last frame index, inclusive
+  rangeEnd: number;
+}
+
+export const DEFAULT_PROCESS_SETTINGS: ProcessSettings = {
+  type: ProcessType.SOFT_CLIP,
+  scope: ProcessScope.FRAME,
+  amount: 0.5,
+  ramp: false,
+  amountEnd: 1,
+  rangeStart: 0,
+  rangeEnd: 0,
+};
+
+// How frames are taken from a recorded sample
+export enum SampleResynthMethod {
+  CYCLES = 'CYCLES',      // single cycles cut at zero crossings, keeps the recording's texture
+  SPECTRAL = 'SPECTRAL'   // harmonics measured around each cycle and resynthesised, loops perfectly
+}
+
+export interface SampleResynthSettings {
+  method: SampleResynthMethod;
+  start: number;            // region to take cycles from, 0..1 of the sample
+  end: number;
+  frameCount: number;
+  pitch: number | null;     // fundamental in Hz, null = detect
+}
+
+export const DEFAULT_SAMPLE_RESYNTH_SETTINGS: SampleResynthSettings = {
+  method: SampleResynthMethod.CYCLES,
+  start: 0,
+  end: 1,
+  frameCount: 64,
+  pitch: null,
+};
+
+// Harmonic automation: each lane drives partials start..end (1-based, inclusive) with an envelope
+// sampled evenly from the first frame of the table to the last
+export interface HarmonicLane {
+  start: number;
+  end: number;
+  envelope: number[];   // LANE_RESOLUTION levels, 0..1
+}
+
+export interface HarmonicLaneSettings {
+  lanes: HarmonicLane[];
+  frameCount: number;   // table length the lanes render to
+}
+
+export const LANE_RESOLUTION = 64;
+
+export const DEFAULT_LANE_SETTINGS: HarmonicLaneSettings = {
+  lanes: [
+    { start: 1, end: 1, envelope: new Array(LANE_RESOLUTION).fill(1) },
+    { start: 2, end: 8, envelope: new Array(LANE_RESOLUTION).fill(0).map((_, i) => i / (LANE_RESOLUTION - 1)) },
+  ],
+  frameCount: 64,
+};
+
+export interface SynthSettings {
+  attack: number;   // seconds
+  decay: number;    // seconds
+  sustain: number;  // 0..1
+  release: number;  // seconds
+  unison: number;   // oscillators per voice
+  detune: number;   // total unison spread in cents
+  volume: number;   // master volume 0..1
+  octave: number;   // octave of the lowest C on the preview keyboard
+}
+
+export const DEFAULT_SYNTH_SETTINGS: SynthSettings = {
+  attack: 0.01,
+  decay: 0.3,
+  sustain: 0.8,
+  release: 0.4,
+  unison: 1,
+  detune: 20,
+  volume: 0.5,
+  octave: 3,
+};
+
+
+export enum ScanSource {
+  LFO = 'LFO',
+  ENVELOPE = 'ENVELOPE',
+  MANUAL = 'MANUAL'
+}
+
+export enum LfoShape {
+  SINE = 'SINE',
+  TRIANGLE = 'TRIANGLE',
+  SAW = 'SAW',
+  RANDOM = 'RANDOM'
+}
+
+export enum ScanDirection {
+  FORWARD = 'FORWARD',
+  REVERSE = 'REVERSE',
+  PING_PONG = 'PING_PONG'
+}
+
+export interface ScanSettings {
+  enabled: boolean;
+  source: ScanSource;
+  direction: ScanDirection;
+  lfoShape: LfoShape;
+  lfoRate: number;        // Hz, when not tempo-synced
+  tempoSync: boolean;
+  bpm: number;
+  syncBeats: number;      // beats per LFO cycle when tempo-synced
+  envelopeTime: number;   // seconds for one sweep after note on
+  manual: number;         // mod wheel, 0..1
+  rangeStart: number;     // table position swept from, 0..1
+  rangeEnd: number;       // table position swept to, 0..1
+}
+
+export const DEFAULT_SCAN_SETTINGS: ScanSettings = {
+  enabled: false,
+  source: ScanSource.LFO,
+  direction: ScanDirection.FORWARD,
+  lfoShape: LfoShape.SAW,
+  lfoRate: 0.25,
+  tempoSync: false,
+  bpm: 120,
+  syncBeats: 4,
+  envelopeTime: 2,
+  manual: 0,
+  rangeStart: 0,
+  rangeEnd: 1,
+};
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { generateFromFormula, generateTableFromFormula } from './audioUtils';
+
+describe('formula generators', () => {
+  it('leaves f and p free for user variables in single-frame formulas', () => {
+    const frame = generateFromFormula('f = 2; p = 0.5; sin(x * f) * p', 8);
+    expect(frame[1]).toBeCloseTo(0.5);
+  });
+
+  it('binds f and p for table formulas', () => {
+    const table = generateTableFromFormula('p * 0 + f / 10', 2, 4, 4);
+    expect(table.map(frame => +frame[0].toFixed(4))).toEqual([0.2, 0.3, 0.4]);
+    expect(() => generateTableFromFormula('f = 1; f', 0, 1, 4)).toThrow(/Cannot assign to 'f'/);
+  });
+});
@@ -1,65 +1,103 @@
-import { FRAME_SIZE } from '../types';
+import { FRAME_SIZE, WavExportOptions, DEFAULT_WAV_EXPORT_OPTIONS, Complex } from '../types';
+import { compileExpression, CompiledExpression } from './expression';
+import { spectrumToFrame } from './fft';
 
 // --- WAVEFORM GENERATORS ---
 
-export const generateSine = (): Float32Array => {
-  const buffer = new Float32Array(FRAME_SIZE);
-  for (let i = 0; i < FRAME_SIZE; i++) {
-    buffer[i] = Math.sin((i / FRAME_SIZE) * Math.PI * 2);
+export const generateSine = (size: number = FRAME_SIZE): Float32Array => {
+  const buffer = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    buffer[i] = Math.sin((i / size) * Math.PI * 2);
   }
   return buffer;
 };
 
-export const generateSaw = (): Float32Array => {
-  const buffer = new Float32Array(FRAME_SIZE);
-  for (let i = 0; i < FRAME_SIZE; i++) {
-    buffer[i] = 1 - (2 * i) / FRAME_SIZE;
+export const generateSaw = (size: number = FRAME_SIZE): Float32Array => {
+  const buffer = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    buffer[i] = 1 - (2 * i) / size;
   }
   return buffer;
 };
 
-export const generateFromFormula = (formula: string): Float32Array => {
-  const buffer = new Float32Array(FRAME_SIZE);
-  try {
-    // Create a safe-ish function execution environment
-    // t goes from 0 to 1, x goes from 0 to 2PI, i is index
-    const func = new Function('x', 't', 'i', 'n', `return ${formula}`);
-    
-    for (let i = 0; i < FRAME_SIZE; i++) {
-      const t = i / FRAME_SIZE;
-      const x = t * Math.PI * 2;
-      let val = func(x, t, i, FRAME_SIZE);
-      
-      // Hard clip to prevent massive numbers
-      if (isNaN(val)) val = 0;
-      if (val > 1) val = 1;
-      if (val < -1) val = -1;
-      
-      buffer[i] = val;
-    }
-  } catch (e) {
-    console.error("Formula error", e);
-    return generateSine(); // Fallback
+// Inputs available to formulas, in the order the compiled expression expects them:
+// x 0..2π, t 0..1 and i through the cycle, n the cycle length
+export const FORMULA_VARIABLES = ['x', 't', 'i', 'n'];
+// Table and range formulas add f, the frame index, and p, 0..1 through the frames. Single-frame
+// formulas leave them unbound so they stay free for user variables, as they always were.
+export const TABLE_FORMULA_VARIABLES = [...FORMULA_VARIABLES, 'f', 'p'];
+
+// Throws ExpressionError (with the column) when the formula does not compile
+export const generateFromFormula = (formula: string, size: number = FRAME_SIZE): Float32Array => {
+  return renderFormulaFrame(compileExpression(formula, FORMULA_VARIABLES), size, 0, 0);
+};
+
+// Frames start..end (inclusive) of a table from one formula, compiled once; p runs 0..1 across
+// the range. maxFrames thins the range out evenly for previews, keeping the first and last frame.
+export const generateTableFromFormula = (
+  formula: string,
+  start: number,
+  end: number,
+  size: number = FRAME_SIZE,
+  maxFrames: number = Infinity
+): Float32Array[] => {
+  const evaluate = compileExpression(formula, TABLE_FORMULA_VARIABLES);
+  const span = end - start;
+  const count = Math.max(1, Math.min(span + 1, maxFrames));
+  return Array.from({ length: count }, (_, k) => {
+    const frameIndex = count > 1 ? start + Math.round((k / (count - 1)) * span) : start;
+    return renderFormulaFrame(evaluate, size, frameIndex, span > 0 ? (frameIndex - start) / span : 0);
+  });
+};
+
+const renderFormulaFrame = (
+  evaluate: CompiledExpression,
+  size: number,
+  frameIndex: number,
+  framePosition: number
+): Float32Array => {
+  const buffer = new Float32Array(size);
+  // f and p are only read by table formulas; single-frame ones compile without them
+  const inputs = new Float64Array(TABLE_FORMULA_VARIABLES.length);
+  inputs[3] = size;
+  inputs[4] = frameIndex;
+  inputs[5] = framePosition;
+
+  for (let i = 0; i < size; i++) {
+    const t = i / size;
+    inputs[0] = t * Math.PI * 2;
+    inputs[1] = t;
+    inputs[2] = i;
+    let val = evaluate(inputs);
+
+    // Hard clip to prevent massive numbers
+    if (isNaN(val)) val = 0;
+    if (val > 1) val = 1;
+    if (val < -1) val = -1;
+
+    buffer[i] = val;
   }
   return buffer;
 };
 
-export const generateFromHarmonics = (harmonics: number[]): Float32Array => {
-  const buffer = new Float32Array(FRAME_SIZE);
-  buffer.fill(0);
-  
-  // Additive synthesis
-  for (let h = 0; h < harmonics.length; h++) {
-    const amp = harmonics[h];
-    if (amp === 0) continue;
-    const harmonicNum = h + 1;
-    
-    for (let i = 0; i < FRAME_SIZE; i++) {
-      buffer[i] += amp * Math.sin((i / FRAME_SIZE) * Math.PI * 2 * harmonicNum);
-    }
+// Additive synthesis of partials 1..N (sine phase, radians), rendered in one inverse FFT so
+// all 512 partials stay cheap enough to run on every slider move
+export const generateFromHarmonics = (harmonics: number[], phases: number[] = [], size: number = FRAME_SIZE): Float32Array => {
+  return normalizeBuffer(synthesizeHarmonics(harmonics, phases, size));
+};
+
+// Sum of sine partials at their given amplitudes, without normalizing the result
+export const synthesizeHarmonics = (harmonics: number[], phases: number[] = [], size: number = FRAME_SIZE): Float32Array => {
+  const count = Math.min(harmonics.length, size / 2 - 1);
+  const bins: Complex[] = new Array(count + 1);
+  bins[0] = { re: 0, im: 0 };
+  for (let h = 1; h <= count; h++) {
+    const amp = harmonics[h - 1] || 0;
+    const phase = phases[h - 1] || 0;
+    // spectrumToFrame uses cosine phase: sin(a + phase) = cos(a + phase - PI/2)
+    bins[h] = { re: amp * Math.sin(phase), im: -amp * Math.cos(phase) };
   }
-  
-  return normalizeBuffer(buffer);
+  return spectrumToFrame(bins, size);
 };
 
 export const normalizeBuffer = (buffer: Float32Array): Float32Array => {
@@ -79,62 +117,166 @@ export const normalizeBuffer = (buffer: Float32Array): Float32Array => {
 };
 
 export const interpolateFrames = (frameA: Float32Array, frameB: Float32Array, mix: number): Float32Array => {
-  const result = new Float32Array(FRAME_SIZE);
-  for (let i = 0; i < FRAME_SIZE; i++) {
+  const result = new Float32Array(frameA.length);
+  for (let i = 0; i < frameA.length; i++) {
     result[i] = frameA[i] * (1 - mix) + frameB[i] * mix;
   }
   return result;
 };
 
+export const midiToFrequency = (note: number): number => {
+  return 440 * 2 ** ((note - 69) / 12);
+};
+
+// Resample one periodic cycle to a new length using cubic (Catmull-Rom) interpolation.
+// The cycle is treated as looping, so the neighbours of the last sample wrap to the start.
+export const resampleCycle = (cycle: Float32Array, targetLength: number = FRAME_SIZE): Float32Array => {
+  const sourceLength = cycle.length;
+  if (sourceLength === targetLength) return new Float32Array(cycle);
+
+  const result = new Float32Array(targetLength);
+  const ratio = sourceLength / targetLength;
+  for (let i = 0; i < targetLength; i++) {
+    const pos = i * ratio;
+    const idx = Math.floor(pos);
+    const frac = pos - idx;
+
+    const y0 = cycle[(idx - 1 + sourceLength) % sourceLength];
+    const y1 = cycle[idx % sourceLength];
+    const y2 = cycle[(idx + 1) % sourceLength];
+    const y3 = cycle[(idx + 2) % sourceLength];
+
+    const a = -0.5 * y0 + 1.5 * y1 - 1.5 * y2 + 0.5 * y3;
+    const b = y0 - 2.5 * y1 + 2 * y2 - 0.5 * y3;
+    const c = -0.5 * y0 + 0.5 * y2;
+    result[i] = ((a * frac + b) * frac + c) * frac + y1;
+  }
+  return result;
+};
+
 // --- WAV EXPORT ---
 
-export const exportWavetableToWav = (frames: Float32Array[]): Blob => {
-  const numFrames = frames.length;
+export const exportWavetableToWav = (
+  frames: Float32Array[],
+  options: WavExportOptions = DEFAULT_WAV_EXPORT_OPTIONS
+): Blob => {
+  const frameSize = frames[0]?.length ?? FRAME_SIZE;
+  const samples = new Float32Array(frames.length * frameSize);
+  frames.forEach((frame, f) => samples.set(frame, f * frameSize));
+  return encodeWav(samples, options, options.includeClm ? frameSize : null);
+};
+
+// Mono WAV writer shared by table exports and rendered audio.
+// A `clmCycleLength` adds Serum's 'clm ' chunk; `options.includeClm` is not consulted here.
+export const encodeWav = (
+  samples: Float32Array,
+  options: WavExportOptions,
+  clmCycleLength: number | null = null
+): Blob => {
   const numChannels = 1;
-  const sampleRate = 44100;
-  const bitsPerSample = 32; // IEEE Float
-  const byteRate = (sampleRate * numChannels * bitsPerSample) / 8;
-  const blockAlign = (numChannels * bitsPerSample) / 8;
-  const dataSize = numFrames * FRAME_SIZE * numChannels * 4; // 4 bytes per float
-  
-  // Total file size = header (44 bytes) + dataSize
-  // Note: We are skipping the specific 'clm ' chunk logic for brevity, 
-  // but keeping the standard IEEE Float format which Serum reads fine.
-  
-  const buffer = new ArrayBuffer(44 + dataSize);
+  const { sampleRate, bitDepth } = options;
+  const isFloat = bitDepth === 32;
+  const bytesPerSample = bitDepth / 8;
+  const numSamples = samples.length;
+
+  const byteRate = sampleRate * numChannels * bytesPerSample;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = numSamples * blockAlign;
+  const dataPad = dataSize % 2; // RIFF chunks are word aligned
+
+  // Serum identifies wavetables (and their cycle length) through this text chunk
+  const clmText = clmCycleLength !== null ? `<!>${clmCycleLength} 01000000 wavetable (www.xferrecords.com)` : '';
+  const clmChunkSize = clmText ? 8 + clmText.length + (clmText.length % 2) : 0;
+
+  const fmtChunkSize = 8 + 16;
+  const dataChunkSize = 8 + dataSize + dataPad;
+  const riffSize = 4 + fmtChunkSize + clmChunkSize + dataChunkSize;
+
+  const buffer = new ArrayBuffer(8 + riffSize);
   const view = new DataView(buffer);
-  
+  let offset = 0;
+
   // RIFF Chunk
   writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + dataSize, true); // File size - 8
+  view.setUint32(4, riffSize, true); // File size - 8
   writeString(view, 8, 'WAVE');
-  
+  offset = 12;
+
   // fmt Chunk
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-  view.setUint16(20, 3, true); // AudioFormat (3 = IEEE Float)
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, byteRate, true);
-  view.setUint16(32, blockAlign, true);
-  view.setUint16(34, bitsPerSample, true);
-  
+  writeString(view, offset, 'fmt ');
+  view.setUint32(offset + 4, 16, true); // Subchunk1Size (16 for PCM)
+  view.setUint16(offset + 8, isFloat ? 3 : 1, true); // AudioFormat (1 = PCM, 3 = IEEE Float)
+  view.setUint16(offset + 10, numChannels, true);
+  view.setUint32(offset + 12, sampleRate, true);
+  view.setUint32(offset + 16, byteRate, true);
+  view.setUint16(offset + 20, blockAlign, true);
+  view.setUint16(offset + 22, bitDepth, true);
+  offset += fmtChunkSize;
+
+  // clm Chunk
+  if (clmText) {
+    writeString(view, offset, 'clm ');
+    view.setUint32(offset + 4, clmText.length, true);
+    writeString(view, offset + 8, clmText);
+    offset += clmChunkSize;
+  }
+
   // data Chunk
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataSize, true);
-  
+  writeString(view, offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+
+  const gain = options.normalize ? getNormalizeGain(samples) : 1;
+  const random = createRandom(0x5eed);
+  // Integer full scale; positive peak is one step below to stay symmetric around zero
+  const fullScale = isFloat ? 1 : 2 ** (bitDepth - 1);
+
   // Write samples
-  let offset = 44;
-  frames.forEach(frame => {
-    for (let i = 0; i < FRAME_SIZE; i++) {
-      view.setFloat32(offset, frame[i], true);
-      offset += 4;
+  for (let i = 0; i < numSamples; i++) {
+    const sample = samples[i] * gain;
+    if (isFloat) {
+      view.setFloat32(offset, sample, true);
+    } else {
+      // TPDF dither: sum of two uniform randoms spanning +-1 LSB
+      const dither = options.dither ? random() - random() : 0;
+      let value = Math.round(sample * fullScale + dither);
+      value = Math.max(-fullScale, Math.min(fullScale - 1, value));
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
     }
-  });
+    offset += bytesPerSample;
+  }
   
   return new Blob([buffer], { type: 'audio/wav' });
 };
 
+// Gain that brings the loudest sample (of the whole table, when exporting one) to full scale
+const getNormalizeGain = (samples: Float32Array): number => {
+  let maxAmp = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const abs = Math.abs(samples[i]);
+    if (abs > maxAmp) maxAmp = abs;
+  }
+  return maxAmp > 0.0001 ? 1.0 / maxAmp : 1;
+};
+
+// Small seeded PRNG (mulberry32) so exports are reproducible byte for byte
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
 const writeString = (view: DataView, offset: number, string: string) => {
   for (let i = 0; i < string.length; i++) {
     view.setUint8(offset + i, string.charCodeAt(i));
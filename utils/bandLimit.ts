@@ -0,0 +1,84 @@
+import { frameToSpectrum, spectrumToFrame } from './fft';
+import { getFrameSource, setFrameSource } from './frameSources';
+
+// --- BAND-LIMITING ---
+
+// Smallest cycle stored for a mipmap level; keeps linear interpolation clean for the top octaves
+const MIN_MIPMAP_SIZE = 64;
+
+// Brick-wall low-pass in the harmonic domain: harmonics above `maxHarmonic` are removed.
+// The result can be rendered at a different (power-of-two) cycle length.
+export const bandLimitFrame = (frame: Float32Array, maxHarmonic: number, size: number = frame.length): Float32Array => {
+  const bins = frameToSpectrum(frame);
+  const limit = Math.min(maxHarmonic, (size >> 1) - 1);
+  for (let k = limit + 1; k < bins.length; k++) {
+    bins[k] = { re: 0, im: 0 };
+  }
+  return spectrumToFrame(bins, size);
+};
+
+export const bandLimitTable = (frames: Float32Array[], maxHarmonic: number): Float32Array[] => {
+  return frames.map(frame => bandLimitFrame(frame, maxHarmonic));
+};
+
+// --- CYCLE LENGTH ---
+
+// Render every frame at a new power-of-two cycle length through its spectrum. Growing adds no
+// harmonics; shrinking drops only those the shorter cycle cannot hold, so nothing aliases.
+// Frames keep their generator source, which renders the same at any length.
+export const resampleTable = (frames: Float32Array[], size: number): Float32Array[] => {
+  return frames.map(frame => {
+    if (frame.length === size) return frame;
+    const resampled = bandLimitFrame(frame, size >> 1, size);
+    setFrameSource(resampled, getFrameSource(frame));
+    return resampled;
+  });
+};
+
+// --- MIPMAPS ---
+// Level 0 is the frame as drawn. Level k keeps (N/2 >> k) harmonics, i.e. one octave less per level,
+// and is stored at 4x its highest harmonic so small levels stay cheap but still oversampled.
+
+export type FrameMipmap = Float32Array[];
+
+export const getMipmapMaxHarmonic = (frameSize: number, level: number): number => {
+  return Math.max(1, (frameSize >> 1) >> level);
+};
+
+export const getMipmapLevelCount = (frameSize: number): number => {
+  return Math.log2(frameSize >> 1) + 1;
+};
+
+// Highest-quality level whose top harmonic still sits below Nyquist at the given pitch
+export const selectMipmapLevel = (frameSize: number, frequency: number, sampleRate: number): number => {
+  const nyquist = sampleRate / 2;
+  const levels = getMipmapLevelCount(frameSize);
+  for (let level = 0; level < levels; level++) {
+    if (getMipmapMaxHarmonic(frameSize, level) * frequency <= nyquist) return level;
+  }
+  return levels - 1;
+};
+
+// Mipmaps are cached per frame buffer: frames are replaced, never mutated, on edit,
+// so rebuilding a table only analyses the frames that actually changed.
+const mipmapCache = new WeakMap<Float32Array, FrameMipmap>();
+
+export const buildFrameMipmap = (frame: Float32Array): FrameMipmap => {
+  const cached = mipmapCache.get(frame);
+  if (cached) return cached;
+
+  const levels: FrameMipmap = [frame];
+  const bins = frameToSpectrum(frame);
+  for (let level = 1; level < getMipmapLevelCount(frame.length); level++) {
+    const maxHarmonic = getMipmapMaxHarmonic(frame.length, level);
+    const size = Math.max(MIN_MIPMAP_SIZE, maxHarmonic * 4);
+    levels.push(spectrumToFrame(bins.slice(0, maxHarmonic + 1), size));
+  }
+
+  mipmapCache.set(frame, levels);
+  return levels;
+};
+
+export const buildTableMipmaps = (frames: Float32Array[]): FrameMipmap[] => {
+  return frames.map(buildFrameMipmap);
+};
@@ -0,0 +1,90 @@
+import { BrushFalloff, DrawSettings, DrawSymmetry, DrawTool, FRAME_SIZE } from '../types';
+
+// --- DRAWING TOOLS ---
+// In-place edits of a frame buffer, applied by the waveform canvas while a stroke is in progress.
+
+// Brush half-width for a cycle of `size` samples, so a brush covers the same part of any cycle
+export const getBrushRadius = (settings: DrawSettings, size: number): number => {
+  return Math.max(1, Math.round((settings.brushSize * size) / FRAME_SIZE));
+};
+
+// Snap a cursor position to the grid lines that are switched on
+export const snapToGrid = (index: number, amp: number, settings: DrawSettings, size: number): { index: number; amp: number } => ({
+  index: settings.snapX
+    ? Math.min(size - 1, Math.round((Math.round((index / size) * settings.gridX) * size) / settings.gridX))
+    : index,
+  amp: settings.snapY ? (Math.round(((amp + 1) / 2) * settings.gridY) / settings.gridY) * 2 - 1 : amp,
+});
+
+// One dab of the brush, smoothing or eraser tool centred on `center`
+export const applyDab = (buffer: Float32Array, center: number, amp: number, settings: DrawSettings) => {
+  const size = buffer.length;
+  const radius = getBrushRadius(settings, size);
+  // Smoothing averages neighbours as they were before this dab, wrapping around the cycle
+  const source = settings.tool === DrawTool.SMOOTH ? new Float32Array(buffer) : buffer;
+  const blur = Math.max(1, Math.round(radius / 3));
+
+  for (let i = -radius; i <= radius; i++) {
+    const idx = center + i;
+    if (idx < 0 || idx >= size) continue;
+    let weight = brushWeight(Math.abs(i) / radius, settings.falloff);
+    let target = amp;
+    if (settings.tool === DrawTool.ERASE) {
+      target = 0;
+    } else if (settings.tool === DrawTool.SMOOTH) {
+      let sum = 0;
+      for (let k = -blur; k <= blur; k++) sum += source[(idx + k + size) % size];
+      target = sum / (2 * blur + 1);
+      // Half strength per dab so repeated passes smooth gradually
+      weight *= 0.5;
+    }
+    buffer[idx] = buffer[idx] * (1 - weight) + target * weight;
+  }
+};
+
+// Straight line between two cursor positions, replacing the samples it spans
+export const drawLine = (buffer: Float32Array, from: { index: number; amp: number }, to: { index: number; amp: number }) => {
+  const steps = Math.abs(to.index - from.index);
+  const dir = to.index >= from.index ? 1 : -1;
+  for (let i = 0; i <= steps; i++) {
+    const idx = from.index + i * dir;
+    if (idx >= 0 && idx < buffer.length) buffer[idx] = steps ? from.amp + ((to.amp - from.amp) * i) / steps : to.amp;
+  }
+};
+
+// Rebuild the rest of the cycle from the half (or mirror half) under the cursor at `center`
+export const applySymmetry = (buffer: Float32Array, symmetry: DrawSymmetry, center: number) => {
+  const size = buffer.length;
+  const half = size >> 1;
+  const fromFirstHalf = center < half;
+
+  if (symmetry === DrawSymmetry.MIRROR) {
+    for (let i = 0; i < half; i++) {
+      if (fromFirstHalf) buffer[i + half] = -buffer[i];
+      else buffer[i] = -buffer[i + half];
+    }
+  } else if (symmetry === DrawSymmetry.ODD || symmetry === DrawSymmetry.EVEN) {
+    const sign = symmetry === DrawSymmetry.ODD ? -1 : 1;
+    for (let i = 1; i < half; i++) {
+      if (fromFirstHalf) buffer[size - i] = sign * buffer[i];
+      else buffer[i] = sign * buffer[size - i];
+    }
+    // An odd cycle passes through zero at its start and middle
+    if (symmetry === DrawSymmetry.ODD) {
+      buffer[0] = 0;
+      buffer[half] = 0;
+    }
+  }
+};
+
+// Strength at distance 0..1 from the brush centre
+const brushWeight = (distance: number, falloff: BrushFalloff): number => {
+  switch (falloff) {
+    case BrushFalloff.HARD:
+      return 1;
+    case BrushFalloff.SOFT:
+      return 0.5 + 0.5 * Math.cos(Math.PI * distance);
+    default:
+      return 1 - distance;
+  }
+};
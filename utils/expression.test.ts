@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression, ExpressionError } from './expression';
+
+const compileError = (source: string): unknown => {
+  try {
+    compileExpression(source, ['x']);
+  } catch (err) {
+    return err;
+  }
+  return null;
+};
+
+describe('compileExpression', () => {
+  it('evaluates built-in functions, constants and variables', () => {
+    const evaluate = compileExpression('a = 2; sin(x) * a + pi', ['x']);
+    expect(evaluate([Math.PI / 2])).toBeCloseTo(2 + Math.PI);
+  });
+
+  it.each(['toString(x)', 'constructor(1)', 'valueOf(x)', 'hasOwnProperty(1)', '__proto__(x)'])(
+    'rejects the prototype name in %s as an unknown function',
+    source => {
+      const err = compileError(source);
+      expect(err).toBeInstanceOf(ExpressionError);
+      expect((err as ExpressionError).message).toMatch(/Unknown function/);
+    }
+  );
+
+  it.each(['sin(x) * constructor', '__proto__', 'Math.valueOf', 'toString + 1'])(
+    'rejects the prototype name in %s as an unknown variable',
+    source => {
+      const err = compileError(source);
+      expect(err).toBeInstanceOf(ExpressionError);
+      expect((err as ExpressionError).message).toMatch(/Unknown variable/);
+    }
+  );
+
+  it('lets prototype names be used as ordinary variables', () => {
+    expect(compileExpression('constructor = x * 2; __proto__ = 1; constructor + __proto__', ['x'])([3])).toBe(7);
+  });
+
+  it('reports runaway nesting as an ExpressionError', () => {
+    expect(compileError('('.repeat(100000) + 'x' + ')'.repeat(100000))).toBeInstanceOf(ExpressionError);
+  });
+});
@@ -0,0 +1,431 @@
+// --- FORMULA EXPRESSION LANGUAGE ---
+// A small math language for the MATH generator, parsed and compiled to closures once per
+// formula instead of running arbitrary JavaScript. Only the functions and constants listed
+// below are reachable, so formulas from project files or links cannot touch the page.
+//
+//   a = 3; b = sin(x * a)      statements split by ';' or newline, the last one is the result
+//   + - * / % ^ (or **)        ^ is power, right-associative, and binds tighter than unary minus
+//   < <= > >= == != && || !    comparisons and logic give 1 or 0
+//   c ? a : b                  any non-zero condition is true
+//   Math.sin(x), Math.PI       the Math. prefix is accepted so older JS formulas keep working
+
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+// Evaluates with input values in the order of the names passed to compileExpression
+export type CompiledExpression = (inputs: ArrayLike<number>) => number;
+
+type Evaluator = (slots: Float64Array) => number;
+
+interface Node {
+  evaluate: Evaluator;
+  constant?: number; // set when the node does not depend on any variable, for folding
+}
+
+interface Token {
+  type: 'number' | 'name' | 'op' | 'end';
+  value: string;
+  position: number;
+}
+
+interface FunctionDef {
+  arity: number | [number, number];
+  fn: (...args: number[]) => number;
+}
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  PI: Math.PI,
+  tau: Math.PI * 2,
+  e: Math.E,
+  E: Math.E,
+};
+
+const fract = (v: number) => v - Math.floor(v);
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+
+// Integer hash to 0..1, the same input always gives the same value
+const hash = (n: number): number => {
+  let h = Math.imul(Math.floor(n) ^ 0x9e3779b9, 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+};
+
+// Smooth 1D value noise in -1..1, lattice points at integers
+const noise = (v: number, seed: number = 0): number => {
+  const i = Math.floor(v);
+  const f = v - i;
+  const s = f * f * (3 - 2 * f);
+  const offset = Math.floor(seed) * 7919;
+  const a = hash(i + offset);
+  const b = hash(i + 1 + offset);
+  return (a + (b - a) * s) * 2 - 1;
+};
+
+const FUNCTIONS: Record<string, FunctionDef> = {
+  sin: { arity: 1, fn: Math.sin },
+  cos: { arity: 1, fn: Math.cos },
+  tan: { arity: 1, fn: Math.tan },
+  asin: { arity: 1, fn: Math.asin },
+  acos: { arity: 1, fn: Math.acos },
+  atan: { arity: 1, fn: Math.atan },
+  atan2: { arity: 2, fn: Math.atan2 },
+  sinh: { arity: 1, fn: Math.sinh },
+  cosh: { arity: 1, fn: Math.cosh },
+  tanh: { arity: 1, fn: Math.tanh },
+  exp: { arity: 1, fn: Math.exp },
+  log: { arity: 1, fn: Math.log },
+  log2: { arity: 1, fn: Math.log2 },
+  log10: { arity: 1, fn: Math.log10 },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  pow: { arity: 2, fn: Math.pow },
+  abs: { arity: 1, fn: Math.abs },
+  sign: { arity: 1, fn: Math.sign },
+  floor: { arity: 1, fn: Math.floor },
+  ceil: { arity: 1, fn: Math.ceil },
+  round: { arity: 1, fn: Math.round },
+  fract: { arity: 1, fn: fract },
+  min: { arity: [1, Infinity], fn: Math.min },
+  max: { arity: [1, Infinity], fn: Math.max },
+  clamp: { arity: [1, 3], fn: (v, lo = -1, hi = 1) => clamp(v, lo, hi) },
+  mix: { arity: 3, fn: (a, b, k) => a + (b - a) * k },
+  step: { arity: 2, fn: (edge, v) => (v < edge ? 0 : 1) },
+  smoothstep: { arity: 3, fn: (lo, hi, v) => { const k = clamp((v - lo) / (hi - lo), 0, 1); return k * k * (3 - 2 * k); } },
+  // Band-unlimited basic shapes over one 0..2π period, matching sin(x)'s phase
+  saw: { arity: 1, fn: v => fract(v / (Math.PI * 2) + 0.5) * 2 - 1 },
+  square: { arity: 1, fn: v => (fract(v / (Math.PI * 2)) < 0.5 ? 1 : -1) },
+  tri: { arity: 1, fn: v => 1 - 4 * Math.abs(fract(v / (Math.PI * 2) + 0.25) - 0.5) },
+  noise: { arity: [1, 2], fn: noise },
+  hash: { arity: 1, fn: hash },
+};
+
+// Binary operators by precedence, higher binds tighter
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+const BINARY_OPS: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '%': (a, b) => a % b,
+  '<': (a, b) => (a < b ? 1 : 0),
+  '<=': (a, b) => (a <= b ? 1 : 0),
+  '>': (a, b) => (a > b ? 1 : 0),
+  '>=': (a, b) => (a >= b ? 1 : 0),
+  '==': (a, b) => (a === b ? 1 : 0),
+  '!=': (a, b) => (a !== b ? 1 : 0),
+};
+
+// Longest first so '**' wins over '*'
+const OPERATORS = ['**', '<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '(', ')', ',', '?', ':', '<', '>', '!', '=', ';'];
+
+export const getExpressionFunctionNames = (): string[] => Object.keys(FUNCTIONS);
+
+// Own keys only: names like 'constructor' or '__proto__' must not reach Object.prototype
+const isConstant = (name: string) => Object.hasOwn(CONSTANTS, name);
+const isFunction = (name: string) => Object.hasOwn(FUNCTIONS, name);
+
+// 1-based line and column of a character offset, for error messages
+export const getErrorLocation = (source: string, position: number): { line: number; column: number } => {
+  const before = source.slice(0, position).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+// Every failure comes out as an ExpressionError, so callers can show it instead of crashing
+export const compileExpression = (source: string, inputNames: string[]): CompiledExpression => {
+  try {
+    return compile(source, inputNames);
+  } catch (err) {
+    if (err instanceof ExpressionError) throw err;
+    // e.g. a RangeError from parentheses nested deeper than the parser's recursion allows
+    throw new ExpressionError(`The formula could not be compiled (${err instanceof Error ? err.message : String(err)}).`, 0);
+  }
+};
+
+const compile = (source: string, inputNames: string[]): CompiledExpression => {
+  const tokens = tokenize(source);
+  let index = 0;
+  // Input slots first, then one slot per user variable in order of first assignment
+  const slotNames = [...inputNames];
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isOp = (value: string) => peek().type === 'op' && peek().value === value;
+  const expect = (value: string, what: string) => {
+    const token = peek();
+    if (token.type !== 'op' || token.value !== value) {
+      throw new ExpressionError(`Expected ${what} but found ${describe(token)}.`, token.position);
+    }
+    return next();
+  };
+
+  const fold = (node: Node, operands: Node[], compute: (...values: number[]) => number): Node => {
+    if (operands.every(op => op.constant !== undefined)) {
+      const constant = compute(...operands.map(op => op.constant!));
+      return { evaluate: () => constant, constant };
+    }
+    return node;
+  };
+
+  const parseStatementList = (): Evaluator => {
+    const statements: Evaluator[] = [];
+    let result: Node | null = null;
+
+    while (peek().type !== 'end') {
+      if (isOp(';')) {
+        next();
+        continue;
+      }
+      if (result) {
+        throw new ExpressionError(`Expected ';' or a new line before ${describe(peek())}.`, peek().position);
+      }
+
+      const token = peek();
+      const following = tokens[index + 1];
+      if (token.type === 'name' && following.type === 'op' && following.value === '=') {
+        const name = normalizeName(token);
+        if (inputNames.includes(name) || isConstant(name) || isFunction(name)) {
+          throw new ExpressionError(`Cannot assign to '${name}', it is a built-in name.`, token.position);
+        }
+        index += 2;
+        // Parse the value before declaring the variable, so `a = a + 1` cannot read itself
+        const value = parseExpression();
+        let slot = slotNames.indexOf(name);
+        if (slot < 0) {
+          slot = slotNames.length;
+          slotNames.push(name);
+        }
+        const evaluate = value.evaluate;
+        statements.push(slots => (slots[slot] = evaluate(slots)));
+      } else {
+        result = parseExpression();
+      }
+    }
+
+    if (!result) {
+      throw new ExpressionError('The formula needs a final expression to produce the sample value.', source.length);
+    }
+    const final = result.evaluate;
+    if (statements.length === 0) return final;
+    return slots => {
+      for (let s = 0; s < statements.length; s++) statements[s](slots);
+      return final(slots);
+    };
+  };
+
+  // Ternary, the lowest precedence and right-associative
+  const parseExpression = (): Node => {
+    const condition = parseBinary(1);
+    if (!isOp('?')) return condition;
+    next();
+    const whenTrue = parseExpression();
+    expect(':', "':' of the ?: expression");
+    const whenFalse = parseExpression();
+    const c = condition.evaluate;
+    const a = whenTrue.evaluate;
+    const b = whenFalse.evaluate;
+    if (condition.constant !== undefined) return condition.constant !== 0 ? whenTrue : whenFalse;
+    return { evaluate: slots => (c(slots) !== 0 ? a(slots) : b(slots)) };
+  };
+
+  const parseBinary = (minPrecedence: number): Node => {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      const precedence = token.type === 'op' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      next();
+      const right = parseBinary(precedence + 1);
+      const l = left.evaluate;
+      const r = right.evaluate;
+      let node: Node;
+      if (token.value === '&&') {
+        node = { evaluate: slots => (l(slots) !== 0 && r(slots) !== 0 ? 1 : 0) };
+        left = fold(node, [left, right], (a, b) => (a !== 0 && b !== 0 ? 1 : 0));
+      } else if (token.value === '||') {
+        node = { evaluate: slots => (l(slots) !== 0 || r(slots) !== 0 ? 1 : 0) };
+        left = fold(node, [left, right], (a, b) => (a !== 0 || b !== 0 ? 1 : 0));
+      } else {
+        const op = BINARY_OPS[token.value];
+        node = { evaluate: slots => op(l(slots), r(slots)) };
+        left = fold(node, [left, right], op);
+      }
+    }
+  };
+
+  const parseUnary = (): Node => {
+    if (isOp('-') || isOp('+') || isOp('!')) {
+      const op = next().value;
+      const operand = parseUnary();
+      const v = operand.evaluate;
+      if (op === '+') return operand;
+      if (op === '-') return fold({ evaluate: slots => -v(slots) }, [operand], a => -a);
+      return fold({ evaluate: slots => (v(slots) === 0 ? 1 : 0) }, [operand], a => (a === 0 ? 1 : 0));
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Node => {
+    const base = parsePrimary();
+    if (!isOp('^') && !isOp('**')) return base;
+    next();
+    // Right side goes through unary so 2^-1 works, and recursion makes it right-associative
+    const exponent = parseUnary();
+    const b = base.evaluate;
+    const x = exponent.evaluate;
+    return fold({ evaluate: slots => Math.pow(b(slots), x(slots)) }, [base, exponent], Math.pow);
+  };
+
+  const parsePrimary = (): Node => {
+    const token = next();
+    if (token.type === 'number') {
+      const constant = parseFloat(token.value);
+      return { evaluate: () => constant, constant };
+    }
+    if (token.type === 'op' && token.value === '(') {
+      const inner = parseExpression();
+      expect(')', "')'");
+      return inner;
+    }
+    if (token.type === 'name') {
+      const name = normalizeName(token);
+      if (isOp('(')) return parseCall(name, token);
+
+      const slot = slotNames.indexOf(name);
+      if (slot >= 0) return { evaluate: slots => slots[slot] };
+      if (isConstant(name)) {
+        const constant = CONSTANTS[name];
+        return { evaluate: () => constant, constant };
+      }
+      if (isFunction(name)) {
+        throw new ExpressionError(`'${name}' is a function, call it like ${name}(x).`, token.position);
+      }
+      throw new ExpressionError(`Unknown variable '${name}'.`, token.position);
+    }
+    throw new ExpressionError(`Unexpected ${describe(token)}.`, token.position);
+  };
+
+  const parseCall = (name: string, token: Token): Node => {
+    const def = isFunction(name) ? FUNCTIONS[name] : undefined;
+    if (!def) throw new ExpressionError(`Unknown function '${name}'.`, token.position);
+    next(); // (
+
+    const args: Node[] = [];
+    if (!isOp(')')) {
+      args.push(parseExpression());
+      while (isOp(',')) {
+        next();
+        args.push(parseExpression());
+      }
+    }
+    expect(')', `')' to close ${name}(`);
+
+    const [minArgs, maxArgs] = typeof def.arity === 'number' ? [def.arity, def.arity] : def.arity;
+    if (args.length < minArgs || args.length > maxArgs) {
+      const expected = minArgs === maxArgs ? `${minArgs}` : maxArgs === Infinity ? `at least ${minArgs}` : `${minArgs} to ${maxArgs}`;
+      throw new ExpressionError(`${name}() takes ${expected} argument${expected === '1' ? '' : 's'}, got ${args.length}.`, token.position);
+    }
+
+    // Fixed-arity closures avoid building an argument array per sample
+    const fn = def.fn;
+    const [a, b, c] = args.map(arg => arg.evaluate);
+    let evaluate: Evaluator;
+    switch (args.length) {
+      case 1: evaluate = slots => fn(a(slots)); break;
+      case 2: evaluate = slots => fn(a(slots), b(slots)); break;
+      case 3: evaluate = slots => fn(a(slots), b(slots), c(slots)); break;
+      default: {
+        const all = args.map(arg => arg.evaluate);
+        evaluate = slots => fn(...all.map(arg => arg(slots)));
+      }
+    }
+    return fold({ evaluate }, args, fn);
+  };
+
+  const body = parseStatementList();
+  const slots = new Float64Array(slotNames.length);
+  const inputCount = inputNames.length;
+  return (inputs: ArrayLike<number>) => {
+    for (let s = 0; s < inputCount; s++) slots[s] = inputs[s];
+    return body(slots);
+  };
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let depth = 0; // newlines only separate statements outside parentheses
+  let pos = 0;
+
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    if (ch === '\n') {
+      if (depth === 0) tokens.push({ type: 'op', value: ';', position: pos });
+      pos++;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+    // Line comments
+    if (ch === '/' && source[pos + 1] === '/') {
+      while (pos < source.length && source[pos] !== '\n') pos++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(pos));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: pos });
+      pos += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(pos));
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], position: pos });
+      pos += name[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(candidate => source.startsWith(candidate, pos));
+    if (op) {
+      if (op === '(') depth++;
+      if (op === ')') depth = Math.max(0, depth - 1);
+      tokens.push({ type: 'op', value: op, position: pos });
+      pos += op.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${ch}'.`, pos);
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+};
+
+// Accept JavaScript's Math.* spelling; any other dotted name is an error
+const normalizeName = (token: Token): string => {
+  if (!token.value.includes('.')) return token.value;
+  const match = /^Math\.([A-Za-z_][A-Za-z0-9_]*)$/.exec(token.value);
+  if (!match) throw new ExpressionError(`Unknown name '${token.value}'.`, token.position);
+  return match[1];
+};
+
+const describe = (token: Token): string => {
+  if (token.type === 'end') return 'the end of the formula';
+  if (token.type === 'op' && token.value === ';') return 'a new statement';
+  return `'${token.value}'`;
+};
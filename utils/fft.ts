@@ -0,0 +1,121 @@
+import { Complex, HarmonicSpectrum } from '../types';
+
+// --- FFT / IFFT ---
+
+// In-place iterative radix-2 Cooley-Tukey transform. Length must be a power of two.
+// The inverse is unscaled; callers divide by N where they need it.
+export const fftInPlace = (re: Float64Array, im: Float64Array, inverse: boolean = false) => {
+  const n = re.length;
+  if ((n & (n - 1)) !== 0) throw new Error(`FFT size must be a power of two, got ${n}`);
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let tmp = re[i]; re[i] = re[j]; re[j] = tmp;
+      tmp = im[i]; im[i] = im[j]; im[j] = tmp;
+    }
+  }
+
+  const sign = inverse ? 1 : -1;
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (sign * 2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    const half = len >> 1;
+    for (let start = 0; start < n; start += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+// --- FRAME <-> SPECTRUM ---
+
+// Analyse one cycle into bins 0..N/2. Bins are scaled so that |bin k| is the peak amplitude of
+// harmonic k and its angle is the phase of a cosine: x[n] = sum A_k * cos(2*PI*k*n/N + phase_k).
+export const frameToSpectrum = (frame: Float32Array): Complex[] => {
+  const n = frame.length;
+  const re = Float64Array.from(frame);
+  const im = new Float64Array(n);
+  fftInPlace(re, im);
+
+  const half = n >> 1;
+  const bins: Complex[] = new Array(half + 1);
+  for (let k = 0; k <= half; k++) {
+    const scale = k === 0 || k === half ? 1 / n : 2 / n;
+    bins[k] = { re: re[k] * scale, im: im[k] * scale };
+  }
+  return bins;
+};
+
+// Inverse of frameToSpectrum. Bins beyond `size / 2` are dropped and missing bins count as zero,
+// so a spectrum can be rendered at any power-of-two cycle length.
+export const spectrumToFrame = (bins: Complex[], size: number): Float32Array => {
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  const half = size >> 1;
+  const count = Math.min(bins.length - 1, half);
+
+  for (let k = 0; k <= count; k++) {
+    const scale = k === 0 || k === half ? size : size / 2;
+    re[k] = bins[k].re * scale;
+    im[k] = bins[k].im * scale;
+    if (k > 0 && k < half) {
+      re[size - k] = re[k];
+      im[size - k] = -im[k];
+    }
+  }
+
+  fftInPlace(re, im, true);
+  const frame = new Float32Array(size);
+  for (let i = 0; i < size; i++) frame[i] = re[i] / size;
+  return frame;
+};
+
+// Peak amplitude of harmonics 1..count (DC excluded)
+export const getHarmonicMagnitudes = (frame: Float32Array, count: number = frame.length / 2): Float32Array => {
+  const bins = frameToSpectrum(frame);
+  const mags = new Float32Array(Math.min(count, bins.length - 1));
+  for (let h = 0; h < mags.length; h++) {
+    const bin = bins[h + 1];
+    mags[h] = Math.hypot(bin.re, bin.im);
+  }
+  return mags;
+};
+
+// Amplitudes and sine phases of harmonics 1..count, the inverse of generateFromHarmonics
+// (up to its normalization)
+export const analyzeHarmonics = (frame: Float32Array, count: number = frame.length / 2): HarmonicSpectrum => {
+  const bins = frameToSpectrum(frame);
+  const total = Math.min(count, bins.length - 1);
+  const amplitudes = new Array<number>(total);
+  const phases = new Array<number>(total);
+  for (let h = 0; h < total; h++) {
+    const bin = bins[h + 1];
+    amplitudes[h] = Math.hypot(bin.re, bin.im);
+    // cos(a + phase - PI/2) = sin(a + phase); wrap back into -PI..PI
+    const phase = Math.atan2(bin.im, bin.re) + Math.PI / 2;
+    phases[h] = phase > Math.PI ? phase - 2 * Math.PI : phase;
+  }
+  return { amplitudes, phases };
+};
+
+export const amplitudeToDb = (amp: number, floorDb: number = -96): number => {
+  return amp > 0 ? Math.max(floorDb, 20 * Math.log10(amp)) : floorDb;
+};
@@ -0,0 +1,23 @@
+import { FrameSource } from '../types';
+
+// --- FRAME PROVENANCE ---
+// Keyed by the frame buffer itself: any edit swaps in a new Float32Array, which drops the
+// source automatically, and undo snapshots bring the old buffer (and its source) back.
+
+const frameSources = new WeakMap<Float32Array, FrameSource>();
+
+export const setFrameSource = (frame: Float32Array, source: FrameSource | null | undefined) => {
+  if (source) frameSources.set(frame, source);
+  else frameSources.delete(frame);
+};
+
+export const getFrameSource = (frame: Float32Array): FrameSource | null => {
+  return frameSources.get(frame) ?? null;
+};
+
+// Copy a frame into a new buffer that keeps its source
+export const cloneFrame = (frame: Float32Array): Float32Array => {
+  const copy = new Float32Array(frame);
+  setFrameSource(copy, getFrameSource(frame));
+  return copy;
+};
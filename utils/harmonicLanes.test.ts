@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratorMode } from '../types';
+import { synthesizeHarmonics } from './audioUtils';
+import { getFrameSource } from './frameSources';
+import { renderLaneTable } from './harmonicLanes';
+
+const peak = (frame: Float32Array) => frame.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+
+describe('renderLaneTable', () => {
+  it('lets a single lane envelope shape the level across the table', () => {
+    const fall = [{ start: 1, end: 1, envelope: [1, 0.5, 0] }];
+    const peaks = renderLaneTable(fall, 5, 256).map(peak);
+    expect(peaks[0]).toBeCloseTo(1, 5);
+    expect(peaks[1]).toBeCloseTo(0.75, 5);
+    expect(peaks[2]).toBeCloseTo(0.5, 5);
+    expect(peaks[3]).toBeCloseTo(0.25, 5);
+    expect(peaks[4]).toBe(0);
+  });
+
+  it('brings the loudest frame to full scale', () => {
+    const swell = [{ start: 1, end: 8, envelope: [0, 0.3, 0] }];
+    const peaks = renderLaneTable(swell, 3, 256).map(peak);
+    expect(peaks).toEqual([0, expect.closeTo(1, 5), 0]);
+  });
+
+  it('records each frame\'s partials at the level it was rendered', () => {
+    const fall = [{ start: 1, end: 4, envelope: [1, 0] }];
+    const frame = renderLaneTable(fall, 4, 256)[1];
+    const source = getFrameSource(frame)!;
+    expect(source.mode).toBe(GeneratorMode.LANES);
+    const rebuilt = synthesizeHarmonics(source.harmonics!, source.phases, 256);
+    rebuilt.forEach((v, i) => expect(v).toBeCloseTo(frame[i], 5));
+  });
+});
@@ -0,0 +1,51 @@
+import { FRAME_SIZE, GeneratorMode, HarmonicLane, HarmonicSpectrum, MAX_PARTIALS } from '../types';
+import { synthesizeHarmonics } from './audioUtils';
+import { setFrameSource } from './frameSources';
+
+// --- HARMONIC AUTOMATION LANES ---
+
+// Envelope level at table position 0..1, linear between points
+export const sampleLane = (envelope: number[], position: number): number => {
+  if (envelope.length === 0) return 0;
+  if (envelope.length === 1) return envelope[0];
+  const x = Math.max(0, Math.min(1, position)) * (envelope.length - 1);
+  const idx = Math.min(envelope.length - 2, Math.floor(x));
+  const frac = x - idx;
+  return envelope[idx] + (envelope[idx + 1] - envelope[idx]) * frac;
+};
+
+// Spectrum at one table position. Inside a band the level rolls off as start/h, so a wide band
+// sounds like a slice of a saw rather than a wall of equal partials; overlapping lanes add up.
+export const lanesToSpectrum = (lanes: HarmonicLane[], position: number): HarmonicSpectrum => {
+  const count = Math.min(MAX_PARTIALS, Math.max(0, ...lanes.map(lane => lane.end)));
+  const amplitudes = new Array(count).fill(0);
+  lanes.forEach(lane => {
+    const level = sampleLane(lane.envelope, position);
+    if (level <= 0) return;
+    const end = Math.min(lane.end, count);
+    for (let h = Math.max(1, lane.start); h <= end; h++) {
+      amplitudes[h - 1] += level * (lane.start / h);
+    }
+  });
+  return { amplitudes, phases: new Array(count).fill(0) };
+};
+
+// First frame at position 0, last at 1. Frames are not normalized one by one: a single gain
+// brings the loudest frame to full scale, so the envelopes shape the level across the table.
+// Each frame keeps its spectrum, at the level it was rendered, as LANES provenance: the additive
+// editor opens on exactly what the lanes produced there and re-renders edits at that level.
+export const renderLaneTable = (lanes: HarmonicLane[], frameCount: number, size: number = FRAME_SIZE): Float32Array[] => {
+  const spectra = Array.from({ length: frameCount }, (_, f) => lanesToSpectrum(lanes, frameCount > 1 ? f / (frameCount - 1) : 0));
+  const frames = spectra.map(spectrum => synthesizeHarmonics(spectrum.amplitudes, spectrum.phases, size));
+
+  let peak = 0;
+  frames.forEach(frame => frame.forEach(v => { peak = Math.max(peak, Math.abs(v)); }));
+  const gain = peak > 0.0001 ? 1 / peak : 1;
+
+  return frames.map((frame, f) => {
+    for (let i = 0; i < frame.length; i++) frame[i] *= gain;
+    const { amplitudes, phases } = spectra[f];
+    setFrameSource(frame, { mode: GeneratorMode.LANES, harmonics: amplitudes.map(a => a * gain), phases });
+    return frame;
+  });
+};
@@ -0,0 +1,101 @@
+// --- UNDO / REDO HISTORY ---
+// Snapshots hold the frames array as it was, not copies of it. Frames are never mutated in place
+// (every edit swaps in a new Float32Array), so consecutive snapshots share every buffer that an
+// edit did not touch and a brush stroke on one frame only costs one extra frame.
+
+export interface HistorySnapshot {
+  label: string;              // the operation that replaced this state, e.g. "Draw"
+  frames: Float32Array[];
+  currentIndex: number;
+  keyframes: number[];        // frame indices marked as morph keyframes
+  selection: number[];        // frames the timeline operations targeted, restored with them
+  time: number;               // Date.now() when recorded, for coalescing
+}
+
+export interface HistoryState {
+  past: HistorySnapshot[];
+  future: HistorySnapshot[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const MAX_HISTORY_ENTRIES = 200;
+// Unique frame data kept alive by the history; a full 256-frame table is 2 MB
+const MAX_HISTORY_BYTES = 128 * 1024 * 1024;
+// Continuous controls (sliders) fire on every move; edits this close together are one step
+const COALESCE_MS = 1000;
+
+// Record the state *before* an edit. With `coalesce`, a repeat of the same operation on the same
+// frame shortly after the previous one extends that step instead of adding a new one.
+export const recordHistory = (
+  history: HistoryState,
+  snapshot: HistorySnapshot,
+  coalesce: boolean = false
+): HistoryState => {
+  const last = history.past[history.past.length - 1];
+  if (
+    coalesce &&
+    history.future.length === 0 &&
+    last &&
+    last.label === snapshot.label &&
+    last.currentIndex === snapshot.currentIndex &&
+    snapshot.time - last.time < COALESCE_MS
+  ) {
+    // Keep the older state but slide the window so a long drag stays a single step
+    return { past: [...history.past.slice(0, -1), { ...last, time: snapshot.time }], future: [] };
+  }
+  return trimHistory({ past: [...history.past, snapshot], future: [] });
+};
+
+// Step back: returns the state to restore and moves the current state onto the redo stack
+export const undoHistory = (
+  history: HistoryState,
+  current: Omit<HistorySnapshot, 'label'>
+): { history: HistoryState; snapshot: HistorySnapshot } | null => {
+  const snapshot = history.past[history.past.length - 1];
+  if (!snapshot) return null;
+  return {
+    snapshot,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { ...current, label: snapshot.label }],
+    },
+  };
+};
+
+export const redoHistory = (
+  history: HistoryState,
+  current: Omit<HistorySnapshot, 'label'>
+): { history: HistoryState; snapshot: HistorySnapshot } | null => {
+  const snapshot = history.future[history.future.length - 1];
+  if (!snapshot) return null;
+  return {
+    snapshot,
+    history: {
+      past: [...history.past, { ...current, label: snapshot.label }],
+      future: history.future.slice(0, -1),
+    },
+  };
+};
+
+// Bytes of distinct frame buffers referenced by the snapshots
+export const getHistoryBytes = (snapshots: HistorySnapshot[]): number => {
+  const seen = new Set<ArrayBufferLike>();
+  let bytes = 0;
+  snapshots.forEach(snapshot => snapshot.frames.forEach(frame => {
+    if (seen.has(frame.buffer)) return;
+    seen.add(frame.buffer);
+    bytes += frame.buffer.byteLength;
+  }));
+  return bytes;
+};
+
+// Drop the oldest undo steps until both caps are met; the newest step is always kept
+const trimHistory = (history: HistoryState): HistoryState => {
+  let past = history.past;
+  if (past.length > MAX_HISTORY_ENTRIES) past = past.slice(past.length - MAX_HISTORY_ENTRIES);
+  while (past.length > 1 && getHistoryBytes(past) > MAX_HISTORY_BYTES) {
+    past = past.slice(1);
+  }
+  return past === history.past ? history : { ...history, past };
+};
@@ -0,0 +1,96 @@
+import { FRAME_SIZE, MAX_FRAME_SIZE, GeneratorMode, ImageChannel, ImageMapping, ImageSettings } from '../types';
+import { generateFromHarmonics, normalizeBuffer } from './audioUtils';
+import { setFrameSource } from './frameSources';
+
+// --- IMAGE TO WAVETABLE ---
+
+// Structural subset of ImageData, so the conversion runs without a DOM
+export interface ImagePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;   // RGBA, row-major
+}
+
+// Large images are scaled down while drawing to the canvas; more detail than this is resampled away anyway
+export const MAX_IMAGE_WIDTH = MAX_FRAME_SIZE;
+export const MAX_IMAGE_HEIGHT = 1024;
+
+// ROWS and SPECTROGRAM build a table of settings.frameCount frames, SINGLE returns one frame
+export const imageToFrames = (
+  pixels: ImagePixels,
+  settings: ImageSettings,
+  size: number = FRAME_SIZE,
+  frameCount: number = settings.frameCount
+): Float32Array[] => {
+  const levels = readLevels(pixels, settings);
+  const { width, height } = pixels;
+
+  let frames: Float32Array[];
+  if (settings.mapping === ImageMapping.SINGLE) {
+    const columns = new Float32Array(width);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) columns[x] += levels[y * width + x] / height;
+    }
+    const frame = new Float32Array(size);
+    for (let i = 0; i < size; i++) frame[i] = sampleRow(columns, 0, width, toPixel(i, size, width)) * 2 - 1;
+    frames = [normalizeBuffer(frame)];
+  } else {
+    frames = Array.from({ length: frameCount }, (_, f) => {
+      // First frame is the top row, last frame the bottom row
+      const y = frameCount > 1 ? (f / (frameCount - 1)) * (height - 1) : (height - 1) / 2;
+      const y0 = Math.floor(y);
+      const y1 = Math.min(height - 1, y0 + 1);
+      const fy = y - y0;
+      const readAt = (x: number) => sampleRow(levels, y0 * width, width, x) * (1 - fy) + sampleRow(levels, y1 * width, width, x) * fy;
+
+      if (settings.mapping === ImageMapping.SPECTROGRAM) {
+        const count = Math.max(1, settings.harmonicCount);
+        const amplitudes = Array.from({ length: count }, (_, h) => readAt(toPixel(h, count, width)));
+        return generateFromHarmonics(amplitudes, [], size);
+      }
+      const frame = new Float32Array(size);
+      for (let i = 0; i < size; i++) frame[i] = readAt(toPixel(i, size, width)) * 2 - 1;
+      // Packed images carry exact sample values, so keep their level
+      return settings.channel === ImageChannel.PACKED16 ? frame : normalizeBuffer(frame);
+    });
+  }
+
+  frames.forEach(frame => setFrameSource(frame, { mode: GeneratorMode.IMAGE }));
+  return frames;
+};
+
+// One 0..1 level per pixel after channel selection, contrast and invert
+const readLevels = (pixels: ImagePixels, settings: ImageSettings): Float32Array => {
+  const { width, height, data } = pixels;
+  const levels = new Float32Array(width * height);
+  for (let p = 0; p < levels.length; p++) {
+    const r = data[p * 4];
+    const g = data[p * 4 + 1];
+    const b = data[p * 4 + 2];
+    let value: number;
+    switch (settings.channel) {
+      case ImageChannel.RED: value = r / 255; break;
+      case ImageChannel.GREEN: value = g / 255; break;
+      case ImageChannel.BLUE: value = b / 255; break;
+      case ImageChannel.ALPHA: value = data[p * 4 + 3] / 255; break;
+      case ImageChannel.PACKED16: value = (r * 256 + g) / 65535; break;
+      default: value = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+    }
+    let level = Math.max(0, Math.min(1, (value - 0.5) * settings.contrast + 0.5));
+    if (settings.invert) level = 1 - level;
+    levels[p] = level;
+  }
+  return levels;
+};
+
+// Centre of output cell `index` of `count`, in source pixel coordinates
+const toPixel = (index: number, count: number, width: number): number => {
+  return Math.max(0, Math.min(width - 1, ((index + 0.5) / count) * width - 0.5));
+};
+
+const sampleRow = (levels: Float32Array, offset: number, width: number, x: number): number => {
+  const x0 = Math.floor(x);
+  const x1 = Math.min(width - 1, x0 + 1);
+  const fx = x - x0;
+  return levels[offset + x0] * (1 - fx) + levels[offset + x1] * fx;
+};
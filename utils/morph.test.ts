@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { MorphMode } from '../types';
+import { resizeFrames } from './morph';
+
+// Constant frames make the source position of every resized frame readable from its level
+const table = (count: number) => Array.from({ length: count }, (_, i) => new Float32Array(8).fill(i));
+const levels = (frames: Float32Array[]) => frames.map(frame => +frame[0].toFixed(4));
+
+describe('resizeFrames', () => {
+  it('decimates to the nearest source frames when shrinking', () => {
+    const resized = resizeFrames(table(5), { frameCount: 4, mode: MorphMode.CROSSFADE, average: false });
+    expect(levels(resized)).toEqual([0, 1, 3, 4]);
+  });
+
+  it('averages merged frames symmetrically when shrinking with average', () => {
+    const resized = resizeFrames(table(5), { frameCount: 3, mode: MorphMode.CROSSFADE, average: true });
+    expect(levels(resized)).toEqual([0.5, 2, 3.5]);
+    const even = resizeFrames(table(6), { frameCount: 2, mode: MorphMode.CROSSFADE, average: true });
+    expect(levels(even)).toEqual([1, 4]);
+    const halves = resizeFrames(table(3), { frameCount: 2, mode: MorphMode.CROSSFADE, average: true });
+    expect(levels(halves)).toEqual([0.5, 1.5]);
+  });
+
+  it('blends between source frames when growing', () => {
+    const resized = resizeFrames(table(3), { frameCount: 5, mode: MorphMode.CROSSFADE, average: false });
+    expect(levels(resized)).toEqual([0, 0.5, 1, 1.5, 2]);
+  });
+});
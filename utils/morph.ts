@@ -0,0 +1,187 @@
+import { Complex, EasingCurve, MorphMode, MorphSettings, TableResizeSettings, MAX_FRAMES } from '../types';
+import { interpolateFrames } from './audioUtils';
+import { frameToSpectrum, spectrumToFrame } from './fft';
+import { cloneFrame, getFrameSource } from './frameSources';
+import { morphShapes, renderShape } from './vectorShape';
+
+// --- KEYFRAME MORPHING ---
+
+export const applyEasing = (t: number, settings: MorphSettings): number => {
+  switch (settings.easing) {
+    case EasingCurve.EASE_IN:
+      return t * t;
+    case EasingCurve.EASE_OUT:
+      return 1 - (1 - t) * (1 - t);
+    case EasingCurve.EASE_IN_OUT:
+      return t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t);
+    case EasingCurve.EXPONENTIAL:
+      return t ** Math.max(0.01, settings.exponent);
+    case EasingCurve.CUSTOM:
+      return cubicBezier(t, settings.bezier);
+    default:
+      return t;
+  }
+};
+
+// Blend two frames of the same length; t = 0 gives a, t = 1 gives b
+export const morphFrames = (a: Float32Array, b: Float32Array, t: number, mode: MorphMode): Float32Array => {
+  switch (mode) {
+    case MorphMode.SPECTRAL:
+      return spectralMorph(frameToSpectrum(a), frameToSpectrum(b), t, a.length);
+    case MorphMode.ZERO_CROSSING:
+      return zeroCrossingMorph(a, b, t);
+    case MorphMode.POINTS: {
+      // Only vector frames have points to move; between anything else this is a crossfade
+      const shapeA = getFrameSource(a)?.shape;
+      const shapeB = getFrameSource(b)?.shape;
+      return shapeA && shapeB ? renderShape(morphShapes(shapeA, shapeB, t), a.length) : interpolateFrames(a, b, t);
+    }
+    default:
+      return interpolateFrames(a, b, t);
+  }
+};
+
+// Regenerate every frame strictly between consecutive keyframes; keyframes themselves and
+// frames outside the first/last keyframe are kept as they are
+export const fillBetweenKeyframes = (
+  frames: Float32Array[],
+  keyframes: number[],
+  settings: MorphSettings
+): Float32Array[] => {
+  const keys = [...new Set(keyframes)].filter(k => k >= 0 && k < frames.length).sort((x, y) => x - y);
+  const result = [...frames];
+
+  for (let k = 0; k < keys.length - 1; k++) {
+    const from = keys[k];
+    const to = keys[k + 1];
+    if (to - from < 2) continue;
+    const a = frames[from];
+    const b = frames[to];
+    // Analyse each keyframe pair once rather than per in-between frame
+    const spectra = settings.mode === MorphMode.SPECTRAL ? [frameToSpectrum(a), frameToSpectrum(b)] : null;
+
+    for (let i = from + 1; i < to; i++) {
+      const t = applyEasing((i - from) / (to - from), settings);
+      result[i] = spectra ? spectralMorph(spectra[0], spectra[1], t, a.length) : morphFrames(a, b, t, settings.mode);
+    }
+  }
+  return result;
+};
+
+// --- TABLE RESIZE ---
+
+// Stretch or squeeze the table to a new frame count with the first and last frames pinned.
+// Growing blends new positions between two source frames with the morph mode. Shrinking
+// decimates, keeping the nearest source frame, or with `average` merges every source frame
+// into its nearest new frame. A source frame exactly halfway between two new frames goes into
+// both, so the buckets mirror around the middle and both ends are treated alike.
+export const resizeFrames = (frames: Float32Array[], settings: TableResizeSettings): Float32Array[] => {
+  const count = Math.max(1, Math.min(MAX_FRAMES, Math.round(settings.frameCount)));
+  const last = frames.length - 1;
+  if (count === frames.length) return [...frames];
+
+  if (settings.average && count < frames.length) {
+    const groups: Float32Array[][] = Array.from({ length: count }, () => []);
+    frames.forEach((frame, i) => {
+      const x = count === 1 ? 0 : (i * (count - 1)) / last;
+      const lower = Math.floor(x);
+      // Checked in integers: a frame sits halfway when 2 * i * (count - 1) is an odd multiple of last
+      const halfway = (2 * i * (count - 1)) % (2 * last) === last;
+      if (halfway) {
+        groups[lower].push(frame);
+        groups[lower + 1].push(frame);
+      } else {
+        groups[Math.round(x)].push(frame);
+      }
+    });
+    // Running mean, so spectral and shape modes average the way they blend
+    return groups.map(group => cloneFrame(group.reduce((mean, frame, k) => morphFrames(mean, frame, 1 / (k + 1), settings.mode))));
+  }
+
+  const decimate = count < frames.length;
+  return Array.from({ length: count }, (_, j) => {
+    const exact = count === 1 || last === 0 ? 0 : (j * last) / (count - 1);
+    const position = decimate ? Math.round(exact) : exact;
+    const i = Math.min(last, Math.floor(position));
+    const t = position - i;
+    // Frames landing exactly on a source frame keep it, including how it was generated
+    if (t < 1e-6 || i === last) return cloneFrame(frames[i]);
+    return morphFrames(frames[i], frames[i + 1], t, settings.mode);
+  });
+};
+
+// Magnitudes blend linearly, phases along the shorter way round the circle, so a partial that
+// shifts phase between keyframes glides instead of cancelling halfway
+const spectralMorph = (binsA: Complex[], binsB: Complex[], t: number, size: number): Float32Array => {
+  const bins: Complex[] = binsA.map((a, k) => {
+    const b = binsB[k];
+    const magA = Math.hypot(a.re, a.im);
+    const magB = Math.hypot(b.re, b.im);
+    const mag = magA + (magB - magA) * t;
+    // A silent side has no meaningful phase; take the other one's
+    const phaseA = magA > 1e-9 ? Math.atan2(a.im, a.re) : Math.atan2(b.im, b.re);
+    const phaseB = magB > 1e-9 ? Math.atan2(b.im, b.re) : phaseA;
+    const phase = phaseA + wrapPhase(phaseB - phaseA) * t;
+    return { re: mag * Math.cos(phase), im: mag * Math.sin(phase) };
+  });
+  return spectrumToFrame(bins, size);
+};
+
+// Rotate both cycles so their first rising zero crossing sits at sample 0, blend, then rotate the
+// result to an offset between the two. Shapes stay aligned instead of smearing into each other.
+const zeroCrossingMorph = (a: Float32Array, b: Float32Array, t: number): Float32Array => {
+  const size = a.length;
+  const offsetA = findRisingZeroCrossing(a);
+  const offsetB = findRisingZeroCrossing(b);
+  const blended = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    blended[i] = readPeriodic(a, i + offsetA) * (1 - t) + readPeriodic(b, i + offsetB) * t;
+  }
+
+  let delta = offsetB - offsetA;
+  if (delta > size / 2) delta -= size;
+  if (delta < -size / 2) delta += size;
+  const offset = offsetA + delta * t;
+
+  const result = new Float32Array(size);
+  for (let i = 0; i < size; i++) result[i] = readPeriodic(blended, i - offset);
+  return result;
+};
+
+// Fractional sample position of the first upward crossing, 0 when the cycle never crosses
+const findRisingZeroCrossing = (frame: Float32Array): number => {
+  const size = frame.length;
+  for (let i = 0; i < size; i++) {
+    const current = frame[i];
+    const next = frame[(i + 1) % size];
+    if (current <= 0 && next > 0) return i + current / (current - next);
+  }
+  return 0;
+};
+
+const readPeriodic = (frame: Float32Array, position: number): number => {
+  const size = frame.length;
+  const wrapped = ((position % size) + size) % size;
+  const idx = Math.floor(wrapped);
+  const frac = wrapped - idx;
+  const a = frame[idx];
+  const b = frame[(idx + 1) % size];
+  return a + (b - a) * frac;
+};
+
+const wrapPhase = (phase: number): number => {
+  return phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI));
+};
+
+// CSS-style cubic-bezier through (0,0) and (1,1): solve x(u) = t, return y(u)
+const cubicBezier = (t: number, [x1, y1, x2, y2]: [number, number, number, number]): number => {
+  const curve = (u: number, p1: number, p2: number) => 3 * (1 - u) * (1 - u) * u * p1 + 3 * (1 - u) * u * u * p2 + u * u * u;
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 30; i++) {
+    const mid = (lo + hi) / 2;
+    if (curve(mid, x1, x2) < t) lo = mid;
+    else hi = mid;
+  }
+  return curve((lo + hi) / 2, y1, y2);
+};
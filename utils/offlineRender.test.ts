@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RENDER_SETTINGS, DEFAULT_SYNTH_SETTINGS } from '../types';
+import { generateSaw, generateSine } from './audioUtils';
+import { MAX_RENDER_SECONDS, noteNameToMidi, parseNoteSequence, renderTablePreview } from './offlineRender';
+
+const SAMPLE_RATE = 22050;
+const frames = [generateSine(256), generateSaw(256)];
+const render = { ...DEFAULT_RENDER_SETTINGS, sequence: 'C3 E3+G3', noteLength: 0.25, sweepTime: 0.5 };
+const synth = { ...DEFAULT_SYNTH_SETTINGS, unison: 3, detune: 20 };
+
+describe('renderTablePreview', () => {
+  it('renders the same samples for the same input', () => {
+    const a = renderTablePreview(frames, render, synth, SAMPLE_RATE);
+    const b = renderTablePreview(frames.map(f => new Float32Array(f)), { ...render }, { ...synth }, SAMPLE_RATE);
+    expect(a.length).toBeGreaterThan(0);
+    expect(b).toEqual(a);
+  });
+
+  it('lasts until the last release and is peak-normalized', () => {
+    const out = renderTablePreview(frames, render, synth, SAMPLE_RATE);
+    expect(out.length).toBe(Math.ceil((0.5 + synth.release) * SAMPLE_RATE));
+    const peak = out.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+    expect(peak).toBeCloseTo(0.891, 3);
+  });
+
+  it('refuses renders longer than the limit before allocating them', () => {
+    const long = { ...render, sequence: 'C3', sweepTime: MAX_RENDER_SECONDS + 1 };
+    expect(() => renderTablePreview(frames, long, synth, SAMPLE_RATE)).toThrow(/longest allowed/);
+    const steps = Array(Math.ceil(MAX_RENDER_SECONDS / 10) + 1).fill('C3').join(' ');
+    expect(() => renderTablePreview(frames, { ...render, sequence: steps, noteLength: 10 }, synth, SAMPLE_RATE)).toThrow(/longest allowed/);
+  });
+});
+
+describe('parseNoteSequence', () => {
+  it('places steps, chords and rests on the note grid', () => {
+    expect(parseNoteSequence('  C4 - E4+G4\n', 0.5)).toEqual([
+      { note: 60, start: 0, duration: 0.5 },
+      { note: 64, start: 1, duration: 0.5 },
+      { note: 67, start: 1, duration: 0.5 },
+    ]);
+  });
+
+  it('reads accidentals and negative octaves', () => {
+    expect(noteNameToMidi('F#2')).toBe(42);
+    expect(noteNameToMidi('bb3')).toBe(58);
+    expect(noteNameToMidi('C-1')).toBe(0);
+  });
+
+  it('rejects empty sequences and unknown notes', () => {
+    expect(() => parseNoteSequence('', 1)).toThrow(/empty/);
+    expect(() => parseNoteSequence('- -', 1)).toThrow(/empty/);
+    expect(() => parseNoteSequence('C3 H3', 1)).toThrow(/Invalid note "H3"/);
+    expect(() => parseNoteSequence('C3+', 1)).toThrow(/Invalid note/);
+  });
+});
@@ -0,0 +1,151 @@
+import { RenderSettings, SynthSettings, WavExportOptions } from '../types';
+import { encodeWav, interpolateFrames, midiToFrequency } from './audioUtils';
+import { buildTableMipmaps, selectMipmapLevel } from './bandLimit';
+
+// --- OFFLINE PREVIEW RENDER ---
+// A pure-TS version of the preview synth: same mipmaps, same ADSR, position swept linearly
+// through the table. No randomness and no Web Audio, so a given table and settings always
+// render the same samples.
+
+export interface RenderNote {
+  note: number;      // MIDI note number
+  start: number;     // seconds
+  duration: number;  // seconds until release
+}
+
+// Position and mipmap level are updated once per block, like the worklet
+const BLOCK_SIZE = 128;
+// Rendered audio is normalized to -1 dBFS so chords and unison never clip
+const OUTPUT_PEAK = 0.891;
+// Longest render, checked before the output buffer is allocated
+export const MAX_RENDER_SECONDS = 300;
+
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// "C4" = 60, "F#2", "Bb3"
+export const noteNameToMidi = (name: string): number => {
+  const match = /^([A-Ga-g])(#|b)?(-?\d)$/.exec(name.trim());
+  if (!match) throw new Error(`Invalid note "${name}", expected something like C3, F#2 or Bb4.`);
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  return (parseInt(match[3], 10) + 1) * 12 + NOTE_OFFSETS[match[1].toUpperCase()] + accidental;
+};
+
+export const parseNoteSequence = (sequence: string, noteLength: number): RenderNote[] => {
+  const notes: RenderNote[] = [];
+  sequence.trim().split(/\s+/).filter(Boolean).forEach((step, index) => {
+    if (step === '-') return;
+    step.split('+').forEach(name => {
+      notes.push({ note: noteNameToMidi(name), start: index * noteLength, duration: noteLength });
+    });
+  });
+  if (notes.length === 0) throw new Error('The note sequence is empty.');
+  return notes;
+};
+
+export const renderTablePreview = (
+  frames: Float32Array[],
+  render: RenderSettings,
+  synth: SynthSettings,
+  sampleRate: number
+): Float32Array => {
+  const notes = parseNoteSequence(render.sequence, render.noteLength);
+  const mipmaps = buildTableMipmaps(frames);
+  const frameSize = frames[0].length;
+  const lastNoteEnd = Math.max(...notes.map(n => n.start + n.duration));
+  const seconds = Math.max(render.sweepTime, lastNoteEnd) + synth.release;
+  if (!Number.isFinite(seconds) || seconds > MAX_RENDER_SECONDS) {
+    throw new Error(`The render would last ${seconds.toFixed(1)} s; the longest allowed is ${MAX_RENDER_SECONDS} s.`);
+  }
+  const totalSamples = Math.ceil(seconds * sampleRate);
+  const output = new Float32Array(totalSamples);
+
+  // One oscillator per unison voice of every note, with a fixed phase spread instead of a random one
+  const unison = Math.max(1, Math.round(synth.unison));
+  const peak = 1 / Math.sqrt(unison);
+  const oscillators = notes.flatMap(n => Array.from({ length: unison }, (_, u) => {
+    const spread = unison > 1 ? u / (unison - 1) - 0.5 : 0;
+    const frequency = midiToFrequency(n.note) * 2 ** ((spread * synth.detune) / 1200);
+    return {
+      ...n,
+      frequency,
+      level: selectMipmapLevel(frameSize, frequency, sampleRate),
+      phase: unison > 1 ? u / unison : 0,
+    };
+  }));
+
+  for (let blockStart = 0; blockStart < totalSamples; blockStart += BLOCK_SIZE) {
+    const blockEnd = Math.min(totalSamples, blockStart + BLOCK_SIZE);
+    const time = blockStart / sampleRate;
+    const position = render.sweepTime > 0 ? Math.min(1, time / render.sweepTime) : 1;
+    const framePos = position * (frames.length - 1);
+    const indexA = Math.floor(framePos);
+    const indexB = Math.min(frames.length - 1, indexA + 1);
+    const mix = framePos - indexA;
+
+    // Crossfaded cycle per mipmap level, built lazily for the levels this block needs
+    const cycles = new Map<number, Float32Array>();
+    const getCycle = (level: number) => {
+      let cycle = cycles.get(level);
+      if (!cycle) {
+        cycle = mix > 0 ? interpolateFrames(mipmaps[indexA][level], mipmaps[indexB][level], mix) : mipmaps[indexA][level];
+        cycles.set(level, cycle);
+      }
+      return cycle;
+    };
+
+    oscillators.forEach(osc => {
+      const end = osc.start + osc.duration + synth.release;
+      if (time + BLOCK_SIZE / sampleRate < osc.start || time >= end) return;
+
+      const cycle = getCycle(osc.level);
+      const increment = osc.frequency / sampleRate;
+      for (let i = blockStart; i < blockEnd; i++) {
+        const t = i / sampleRate - osc.start;
+        if (t < 0) continue;
+        output[i] += envelopeAt(t, osc.duration, synth) * peak * readCycle(cycle, osc.phase);
+        osc.phase += increment;
+        osc.phase -= Math.floor(osc.phase);
+      }
+    });
+  }
+
+  let maxAmp = 0;
+  for (let i = 0; i < totalSamples; i++) maxAmp = Math.max(maxAmp, Math.abs(output[i]));
+  if (maxAmp > 0.0001) {
+    const gain = OUTPUT_PEAK / maxAmp;
+    for (let i = 0; i < totalSamples; i++) output[i] *= gain;
+  }
+  return output;
+};
+
+export const exportPreviewRenderToWav = (
+  frames: Float32Array[],
+  render: RenderSettings,
+  synth: SynthSettings,
+  options: WavExportOptions
+): Blob => {
+  const samples = renderTablePreview(frames, render, synth, options.sampleRate);
+  // The render is already peak-normalized and is not a wavetable, so no table normalize or clm chunk
+  return encodeWav(samples, { ...options, normalize: false });
+};
+
+// Linear ADSR matching the preview synth's AudioParam ramps
+const envelopeAt = (t: number, duration: number, synth: SynthSettings): number => {
+  const held = (x: number) => {
+    if (x < synth.attack) return x / synth.attack;
+    if (x < synth.attack + synth.decay) return 1 - (1 - synth.sustain) * ((x - synth.attack) / synth.decay);
+    return synth.sustain;
+  };
+  if (t < duration) return held(t);
+  const r = t - duration;
+  return r >= synth.release ? 0 : held(duration) * (1 - r / synth.release);
+};
+
+const readCycle = (cycle: Float32Array, phase: number): number => {
+  const pos = phase * cycle.length;
+  const idx = Math.floor(pos);
+  const frac = pos - idx;
+  const a = cycle[idx % cycle.length];
+  const b = cycle[(idx + 1) % cycle.length];
+  return a + (b - a) * frac;
+};
@@ -0,0 +1,185 @@
+import { SynthSettings, DEFAULT_SYNTH_SETTINGS, ScanSettings } from '../types';
+import { midiToFrequency } from './audioUtils';
+import {
+  loadWavetableWorklet,
+  createWavetableOscillator,
+  disposeWavetableOscillator,
+  syncWavetable,
+  setWavetableScan,
+} from './wavetableOscillator';
+
+// --- POLYPHONIC PREVIEW SYNTH ---
+// Each voice is `unison` worklet oscillators, optionally spread in stereo, into one ADSR gain.
+// All voices read the same table (it is shared inside the worklet scope), so the table is kept
+// in sync through one silent table-only node instead of per voice.
+
+// Per-note position automation, e.g. an envelope sweeping through the table after note on
+export interface PositionCurve {
+  values: Float32Array;
+  duration: number; // seconds
+}
+
+export interface PolySynth {
+  noteOn: (note: number, positionCurve?: PositionCurve) => void;
+  noteOff: (note: number) => void;
+  allNotesOff: () => void;
+  setFrames: (frames: Float32Array[]) => void;
+  setPosition: (position: number) => void;
+  // LFO or mod wheel scan run on the audio thread, or null to hand the position back to setPosition
+  setScan: (settings: ScanSettings | null, startTime: number) => void;
+  setSettings: (settings: SynthSettings) => void;
+  dispose: () => void;
+}
+
+interface Voice {
+  oscillators: AudioWorkletNode[];
+  nodes: AudioNode[];
+  amp: GainNode;
+}
+
+const MAX_VOICES = 16;
+// Smoothing for position changes so scanning never steps audibly
+const POSITION_SMOOTHING = 0.02;
+
+export const createPolySynth = async (ctx: AudioContext, destination: AudioNode): Promise<PolySynth> => {
+  await loadWavetableWorklet(ctx);
+
+  const tableNode = createWavetableOscillator(ctx, { tableOnly: true });
+  let syncedFrames: Float32Array[] | null = null;
+  let settings = DEFAULT_SYNTH_SETTINGS;
+  let position = 0;
+  // Held notes in start order, so the oldest is stolen first
+  const voices = new Map<number, Voice>();
+  const releasing = new Set<Voice>();
+
+  const disposeVoice = (voice: Voice) => {
+    voice.oscillators.forEach(disposeWavetableOscillator);
+    voice.nodes.forEach(node => node.disconnect());
+    releasing.delete(voice);
+  };
+
+  const releaseVoice = (voice: Voice) => {
+    const now = ctx.currentTime;
+    const gain = voice.amp.gain;
+    // Hold the envelope where it is (mid-attack or mid-decay) and fade from there
+    if (gain.cancelAndHoldAtTime) {
+      gain.cancelAndHoldAtTime(now);
+    } else {
+      gain.cancelScheduledValues(now);
+      gain.setValueAtTime(gain.value, now);
+    }
+    gain.linearRampToValueAtTime(0, now + settings.release);
+
+    releasing.add(voice);
+    window.setTimeout(() => disposeVoice(voice), (settings.release + 0.05) * 1000);
+  };
+
+  const noteOn = (note: number, positionCurve?: PositionCurve) => {
+    const existing = voices.get(note);
+    if (existing) {
+      voices.delete(note);
+      releaseVoice(existing);
+    }
+    if (voices.size >= MAX_VOICES) {
+      const [oldestNote, oldest] = voices.entries().next().value!;
+      voices.delete(oldestNote);
+      releaseVoice(oldest);
+    }
+
+    const now = ctx.currentTime;
+    const frequency = midiToFrequency(note);
+    const count = Math.max(1, Math.round(settings.unison));
+    const amp = ctx.createGain();
+    const oscillators: AudioWorkletNode[] = [];
+    const nodes: AudioNode[] = [amp];
+
+    for (let u = 0; u < count; u++) {
+      // Spread detune and pan symmetrically: -0.5..0.5 of the range
+      const spread = count > 1 ? u / (count - 1) - 0.5 : 0;
+      const osc = createWavetableOscillator(ctx, { phase: count > 1 ? Math.random() : 0 });
+      osc.parameters.get('frequency')!.value = frequency * 2 ** ((spread * settings.detune) / 1200);
+      const positionParam = osc.parameters.get('position')!;
+      if (positionCurve) {
+        positionParam.setValueCurveAtTime(positionCurve.values, now, positionCurve.duration);
+      } else {
+        positionParam.value = position;
+      }
+
+      if (count > 1) {
+        const panner = ctx.createStereoPanner();
+        panner.pan.value = spread * 1.6;
+        osc.connect(panner);
+        panner.connect(amp);
+        nodes.push(panner);
+      } else {
+        osc.connect(amp);
+      }
+      oscillators.push(osc);
+    }
+
+    // ADSR; the peak is scaled so stacking unison oscillators keeps roughly constant loudness
+    const peak = 1 / Math.sqrt(count);
+    const gain = amp.gain;
+    gain.setValueAtTime(0, now);
+    gain.linearRampToValueAtTime(peak, now + settings.attack);
+    gain.linearRampToValueAtTime(peak * settings.sustain, now + settings.attack + settings.decay);
+    amp.connect(destination);
+
+    voices.set(note, { oscillators, nodes, amp });
+  };
+
+  const noteOff = (note: number) => {
+    const voice = voices.get(note);
+    if (!voice) return;
+    voices.delete(note);
+    releaseVoice(voice);
+  };
+
+  const allNotesOff = () => {
+    voices.forEach(releaseVoice);
+    voices.clear();
+  };
+
+  const setFrames = (frames: Float32Array[]) => {
+    syncWavetable(tableNode, frames, syncedFrames);
+    syncedFrames = frames;
+  };
+
+  const setPosition = (value: number) => {
+    position = value;
+    const now = ctx.currentTime;
+    const apply = (voice: Voice) => {
+      voice.oscillators.forEach(osc => {
+        const param = osc.parameters.get('position')!;
+        // Cut any per-note curve still running (scheduling over it would throw) and glide from there
+        if (param.cancelAndHoldAtTime) {
+          param.cancelAndHoldAtTime(now);
+        } else {
+          const current = param.value;
+          param.cancelScheduledValues(0);
+          param.setValueAtTime(current, now);
+        }
+        param.setTargetAtTime(value, now, POSITION_SMOOTHING);
+      });
+    };
+    voices.forEach(apply);
+    releasing.forEach(apply);
+  };
+
+  const setScan = (scan: ScanSettings | null, startTime: number) => {
+    setWavetableScan(tableNode, scan && { settings: scan, startTime });
+  };
+
+  const setSettings = (next: SynthSettings) => {
+    settings = next;
+  };
+
+  const dispose = () => {
+    voices.forEach(disposeVoice);
+    voices.clear();
+    releasing.forEach(disposeVoice);
+    disposeWavetableOscillator(tableNode);
+  };
+
+  return { noteOn, noteOff, allNotesOff, setFrames, setPosition, setScan, setSettings, dispose };
+};
@@ -0,0 +1,167 @@
+import { ProcessScope, ProcessSettings, ProcessType } from '../types';
+import { normalizeBuffer } from './audioUtils';
+import { frameToSpectrum, spectrumToFrame } from './fft';
+
+// --- FRAME PROCESSING ---
+// Each process maps a frame and a 0..1 amount to a new frame. Amount 0 leaves the frame (nearly)
+// unchanged for the shaping processes; BEND is bipolar with 0.5 as neutral.
+
+// Processes that have nothing to adjust
+const FIXED_PROCESSES = [
+  ProcessType.REMOVE_DC,
+  ProcessType.INVERT,
+  ProcessType.REVERSE,
+  ProcessType.REMOVE_FUNDAMENTAL,
+];
+
+export const processUsesAmount = (type: ProcessType): boolean => !FIXED_PROCESSES.includes(type);
+
+export const processFrame = (frame: Float32Array, type: ProcessType, amount: number): Float32Array => {
+  const size = frame.length;
+  const a = Math.max(0, Math.min(1, amount));
+  switch (type) {
+    case ProcessType.REMOVE_DC: {
+      let mean = 0;
+      for (let i = 0; i < size; i++) mean += frame[i] / size;
+      return frame.map(v => v - mean);
+    }
+    case ProcessType.NORMALIZE:
+    case ProcessType.NORMALIZE_TABLE:
+      return scaleToPeak(frame, getPeak(frame), a);
+    case ProcessType.SMOOTH: {
+      // Gentle 4th-order rolloff above a cutoff that sweeps from Nyquist down to the fundamental
+      const cutoff = size ** (1 - a);
+      const bins = frameToSpectrum(frame).map((bin, k) => {
+        const gain = 1 / (1 + (k / cutoff) ** 4);
+        return { re: bin.re * gain, im: bin.im * gain };
+      });
+      return spectrumToFrame(bins, size);
+    }
+    case ProcessType.WAVEFOLD: {
+      const drive = 1 + a * 9;
+      // Triangle fold keeps everything inside -1..1
+      return frame.map(v => {
+        const t = (v * drive - 1) / 4;
+        return 1 - 4 * Math.abs(t - Math.round(t));
+      });
+    }
+    case ProcessType.HARD_CLIP: {
+      const drive = 1 + a * 15;
+      return frame.map(v => Math.max(-1, Math.min(1, v * drive)));
+    }
+    case ProcessType.SOFT_CLIP: {
+      const drive = 0.01 + a * 10;
+      const scale = 1 / Math.tanh(drive);
+      return frame.map(v => Math.tanh(v * drive) * scale);
+    }
+    case ProcessType.BEND: {
+      // Time runs faster at the start of the cycle below 0.5 and at the end above it
+      const exponent = 4 ** ((a - 0.5) * 2);
+      return warp(frame, p => p ** exponent);
+    }
+    case ProcessType.PHASE_DISTORT: {
+      // Casio-style: the first half of the cycle is squeezed into a shrinking knee
+      const knee = 0.5 * (1 - a * 0.98);
+      return warp(frame, p => (p < knee ? (p * 0.5) / knee : 0.5 + ((p - knee) * 0.5) / (1 - knee)));
+    }
+    case ProcessType.MIRROR: {
+      // Crossfade to the first half followed by its upside-down reflection
+      const mirrored = warp(frame, p => (p < 0.5 ? p * 2 : 2 - p * 2));
+      for (let i = size >> 1; i < size; i++) mirrored[i] = -mirrored[i];
+      return frame.map((v, i) => v + (mirrored[i] - v) * a);
+    }
+    case ProcessType.INVERT:
+      return frame.map(v => -v);
+    case ProcessType.REVERSE:
+      return frame.map((_, i) => frame[(size - i) % size]);
+    case ProcessType.SYNC: {
+      const ratio = 1 + a * 7;
+      return warp(frame, p => (p * ratio) % 1);
+    }
+    case ProcessType.PWM: {
+      // The cycle plays in the first `width` of the frame, silence after
+      const width = 1 - a * 0.95;
+      const result = warp(frame, p => Math.min(1, p / width));
+      for (let i = Math.ceil(width * size); i < size; i++) result[i] = 0;
+      return result;
+    }
+    case ProcessType.BIT_CRUSH: {
+      const steps = 2 ** (16 - a * 15) / 2;
+      return frame.map(v => Math.round(v * steps) / steps);
+    }
+    case ProcessType.REMOVE_FUNDAMENTAL: {
+      const bins = frameToSpectrum(frame);
+      if (bins.length > 1) bins[1] = { re: 0, im: 0 };
+      return spectrumToFrame(bins, size);
+    }
+    default:
+      return new Float32Array(frame);
+  }
+};
+
+// Sorted frame indices a process touches
+export const getProcessFrames = (settings: ProcessSettings, frameCount: number, currentIndex: number, selection: number[]): number[] => {
+  const last = frameCount - 1;
+  const span = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  switch (settings.scope) {
+    case ProcessScope.FRAME:
+      return [currentIndex];
+    case ProcessScope.SELECTION:
+      return selection;
+    case ProcessScope.TABLE:
+      return span(0, last);
+    default: {
+      const start = Math.max(0, Math.min(last, Math.min(settings.rangeStart, settings.rangeEnd)));
+      return span(start, Math.max(start, Math.min(last, Math.max(settings.rangeStart, settings.rangeEnd))));
+    }
+  }
+};
+
+// The listed frames processed, with the amount ramping from the first listed to the last when enabled
+export const processFrames = (frames: Float32Array[], settings: ProcessSettings, targets: number[]): Float32Array[] => {
+  const order = new Map(targets.map((index, k) => [index, k]));
+  const amountAt = (k: number) => (settings.ramp && targets.length > 1
+    ? settings.amount + ((settings.amountEnd - settings.amount) * k) / (targets.length - 1)
+    : settings.amount);
+
+  // Table normalization keeps the level relationship between frames: one gain for all of them
+  const tablePeak = settings.type === ProcessType.NORMALIZE_TABLE
+    ? Math.max(...targets.map(i => getPeak(frames[i])))
+    : 0;
+
+  return frames.map((frame, i) => {
+    const k = order.get(i);
+    if (k === undefined) return frame;
+    if (settings.type === ProcessType.NORMALIZE_TABLE) return scaleToPeak(frame, tablePeak, amountAt(k));
+    const processed = processFrame(frame, settings.type, amountAt(k));
+    // Shaping can push the peak past 1; only level processes are allowed to set it
+    return settings.type === ProcessType.NORMALIZE || getPeak(processed) <= 1 ? processed : normalizeBuffer(processed);
+  });
+};
+
+const getPeak = (frame: Float32Array): number => {
+  let peak = 0;
+  for (let i = 0; i < frame.length; i++) peak = Math.max(peak, Math.abs(frame[i]));
+  return peak;
+};
+
+const scaleToPeak = (frame: Float32Array, peak: number, level: number): Float32Array => {
+  if (peak < 1e-4) return new Float32Array(frame);
+  const gain = level / peak;
+  return frame.map(v => v * gain);
+};
+
+// Read the frame at a remapped cycle position (0..1), linear between samples
+const warp = (frame: Float32Array, map: (position: number) => number): Float32Array => {
+  const size = frame.length;
+  const result = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const pos = map(i / size) * size;
+    const idx = Math.floor(pos);
+    const frac = pos - idx;
+    const a = frame[((idx % size) + size) % size];
+    const b = frame[(((idx + 1) % size) + size) % size];
+    result[i] = a + (b - a) * frac;
+  }
+  return result;
+};
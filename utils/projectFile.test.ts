@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_LANE_SETTINGS, DEFAULT_MORPH_SETTINGS, EasingCurve, ExportFormat, GeneratorMode, MAX_PARTIALS, MorphMode } from '../types';
+import { generateSine } from './audioUtils';
+import { applyEasing } from './morph';
+import { getFrameSource } from './frameSources';
+import { WaveforgeProject, SerializedProject, serializeProject, deserializeProject } from './projectFile';
+
+const project: WaveforgeProject = {
+  frames: [generateSine(256), generateSine(256)],
+  currentIndex: 1,
+  formula: 'sin(x)',
+  harmonics: { amplitudes: [1, 0.5], phases: [0, 0.25] },
+  keyframes: [0, 1],
+  morphSettings: DEFAULT_MORPH_SETTINGS,
+  laneSettings: DEFAULT_LANE_SETTINGS,
+  exportSettings: DEFAULT_EXPORT_SETTINGS,
+};
+
+// A saved project with some fields replaced, as untrusted JSON would arrive
+const tamper = (changes: Record<string, unknown>): unknown => ({
+  ...JSON.parse(JSON.stringify(serializeProject(project))),
+  ...changes,
+});
+
+describe('deserializeProject', () => {
+  it('round-trips a project', () => {
+    const loaded = deserializeProject(tamper({}));
+    expect(loaded.frames).toEqual(project.frames);
+    expect(loaded.currentIndex).toBe(1);
+    expect(loaded.harmonics).toEqual(project.harmonics);
+    expect(loaded.keyframes).toEqual([0, 1]);
+    expect(loaded.exportSettings).toEqual(DEFAULT_EXPORT_SETTINGS);
+  });
+
+  it('rejects files from a newer format version', () => {
+    expect(() => deserializeProject(tamper({ version: 99 }))).toThrow(/newer version/);
+  });
+
+  it('replaces invalid export settings with defaults', () => {
+    const saved = serializeProject(project).exportSettings;
+    const loaded = deserializeProject(tamper({
+      exportSettings: {
+        ...saved,
+        format: 'MP3',
+        wav: { ...saved.wav, bitDepth: 13, sampleRate: 'fast' },
+        image: { content: null, encoding: 'RG16' },
+        bandLimitHarmonics: -5,
+        render: { sequence: 42, noteLength: 1e9, sweepTime: NaN },
+      } as unknown as SerializedProject['exportSettings'],
+    }));
+    expect(loaded.exportSettings.format).toBe(ExportFormat.WAV);
+    expect(loaded.exportSettings.wav.bitDepth).toBe(DEFAULT_EXPORT_SETTINGS.wav.bitDepth);
+    expect(loaded.exportSettings.wav.sampleRate).toBe(DEFAULT_EXPORT_SETTINGS.wav.sampleRate);
+    expect(loaded.exportSettings.image).toEqual(DEFAULT_EXPORT_SETTINGS.image);
+    expect(loaded.exportSettings.bandLimitHarmonics).toBe(1);
+    expect(loaded.exportSettings.render).toEqual({ ...DEFAULT_EXPORT_SETTINGS.render, noteLength: 10 });
+  });
+
+  it('replaces invalid morph settings with defaults', () => {
+    const loaded = deserializeProject(tamper({ morphSettings: { mode: 'WARP', easing: 'CUSTOM', exponent: 'steep', bezier: null } }));
+    expect(loaded.morphSettings).toEqual({ ...DEFAULT_MORPH_SETTINGS, easing: EasingCurve.CUSTOM });
+    expect(applyEasing(1, loaded.morphSettings)).toBeCloseTo(1);
+
+    const clamped = deserializeProject(tamper({
+      morphSettings: { mode: MorphMode.SPECTRAL, easing: EasingCurve.CUSTOM, exponent: 50, bezier: [-1, 5, 2, 0.5] },
+    }));
+    expect(clamped.morphSettings).toEqual({ mode: MorphMode.SPECTRAL, easing: EasingCurve.CUSTOM, exponent: 8, bezier: [0, 2, 1, 0.5] });
+  });
+
+  it('rejects cycle lengths the FFT cannot handle', () => {
+    const frames = 'AAAA'.repeat(1000);  // 1000 zero samples
+    expect(() => deserializeProject(tamper({ frameSize: 1000, frameCount: 1, frames }))).toThrow(/unsupported cycle length of 1000/);
+    expect(() => deserializeProject(tamper({ frameSize: 8192, frameCount: 1 }))).toThrow(/unsupported cycle length/);
+  });
+
+  it('matches saved partial phases to the amplitudes and drops empty partial lists', () => {
+    const loaded = deserializeProject(tamper({
+      sources: [
+        { mode: GeneratorMode.HARMONIC, harmonics: [1, '0.5', 'x'], phases: [0.25] },
+        { mode: GeneratorMode.HARMONIC, harmonics: [], phases: [1, 2] },
+      ],
+    }));
+    expect(getFrameSource(loaded.frames[0])).toEqual({ mode: GeneratorMode.HARMONIC, harmonics: [1, 0.5, 0], phases: [0.25, 0, 0] });
+    expect(getFrameSource(loaded.frames[1])).toEqual({ mode: GeneratorMode.HARMONIC });
+  });
+
+  it('caps saved partials at the editor resolution', () => {
+    const loaded = deserializeProject(tamper({
+      sources: [{ mode: GeneratorMode.HARMONIC, harmonics: new Array(MAX_PARTIALS + 10).fill(1), phases: [] }, null],
+      harmonics: new Array(MAX_PARTIALS + 10).fill(1),
+    }));
+    expect(getFrameSource(loaded.frames[0])?.harmonics).toHaveLength(MAX_PARTIALS);
+    expect(getFrameSource(loaded.frames[0])?.phases).toHaveLength(MAX_PARTIALS);
+    expect(loaded.harmonics.amplitudes).toHaveLength(MAX_PARTIALS);
+  });
+});
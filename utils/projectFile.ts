@@ -0,0 +1,255 @@
+import { ExportSettings, DEFAULT_EXPORT_SETTINGS, ExportFormat, ImageExportContent, ImageEncoding, WavBitDepth, CYCLE_LENGTHS, MAX_FRAME_SIZE, FrameSource, GeneratorMode, CurveType, VectorPoint, HarmonicSpectrum, MorphSettings, DEFAULT_MORPH_SETTINGS, MorphMode, EasingCurve, HarmonicLane, HarmonicLaneSettings, DEFAULT_LANE_SETTINGS, LANE_RESOLUTION, MAX_FRAMES, MAX_PARTIALS } from '../types';
+import { encodeFloat32Base64, decodeFloat32Base64 } from './wavetableFormats';
+import { getFrameSource, setFrameSource } from './frameSources';
+import { sampleLane } from './harmonicLanes';
+import { normalizeShape } from './vectorShape';
+
+// --- .WAVEFORGE PROJECT FILES ---
+// JSON with all frames packed into one base64 float32 block, gzipped when the browser
+// supports CompressionStream. The same serialized object is what the autosave stores, so both
+// go through the same version migration on load.
+
+export const PROJECT_EXTENSION = '.waveforge';
+// Bump when the serialized shape changes and add a step to migrateProject
+export const PROJECT_VERSION = 1;
+
+const PROJECT_FORMAT_ID = 'waveforge-project';
+
+export interface WaveforgeProject {
+  frames: Float32Array[];
+  currentIndex: number;
+  formula: string;          // generator panel state, also kept when no frame uses it
+  harmonics: HarmonicSpectrum;
+  keyframes: number[];
+  morphSettings: MorphSettings;
+  laneSettings: HarmonicLaneSettings;
+  exportSettings: ExportSettings;
+}
+
+// On-disk shape, version 1
+export interface SerializedProject {
+  format: typeof PROJECT_FORMAT_ID;
+  version: number;
+  frameSize: number;
+  frameCount: number;
+  frames: string;                       // frameCount * frameSize little-endian float32, base64
+  sources: (FrameSource | null)[];      // per frame, null for drawn/imported frames
+  currentIndex: number;
+  formula: string;
+  harmonics: number[];
+  phases: number[];
+  keyframes: number[];
+  morphSettings: MorphSettings;
+  laneSettings: HarmonicLaneSettings;
+  exportSettings: ExportSettings;
+}
+
+export const serializeProject = (project: WaveforgeProject): SerializedProject => {
+  const frameSize = project.frames[0].length;
+  const packed = new Float32Array(project.frames.length * frameSize);
+  project.frames.forEach((frame, i) => packed.set(frame, i * frameSize));
+
+  return {
+    format: PROJECT_FORMAT_ID,
+    version: PROJECT_VERSION,
+    frameSize,
+    frameCount: project.frames.length,
+    frames: encodeFloat32Base64(packed),
+    sources: project.frames.map(getFrameSource),
+    currentIndex: project.currentIndex,
+    formula: project.formula,
+    harmonics: project.harmonics.amplitudes,
+    phases: project.harmonics.phases,
+    keyframes: project.keyframes,
+    morphSettings: project.morphSettings,
+    laneSettings: project.laneSettings,
+    exportSettings: project.exportSettings,
+  };
+};
+
+export const deserializeProject = (raw: unknown): WaveforgeProject => {
+  const data = migrateProject(raw);
+  const { frameSize, frameCount } = data;
+  if (!Number.isInteger(frameCount) || frameCount < 1 || frameCount > MAX_FRAMES) {
+    throw new Error('Project has an invalid frame layout.');
+  }
+  // The FFT behind the spectrum view, additive analysis and mipmaps needs one of these sizes
+  if (!CYCLE_LENGTHS.includes(frameSize)) {
+    throw new Error(`Project has an unsupported cycle length of ${frameSize} samples (expected ${CYCLE_LENGTHS.join(', ')}).`);
+  }
+
+  const packed = decodeFloat32Base64(data.frames);
+  if (packed.length !== frameSize * frameCount) {
+    throw new Error(`Project frame data is truncated (${packed.length} of ${frameSize * frameCount} samples).`);
+  }
+
+  const frames: Float32Array[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    const frame = packed.slice(f * frameSize, (f + 1) * frameSize);
+    setFrameSource(frame, sanitizeSource(data.sources?.[f]));
+    frames.push(frame);
+  }
+
+  return {
+    frames,
+    currentIndex: Math.max(0, Math.min(frameCount - 1, Math.floor(data.currentIndex) || 0)),
+    formula: typeof data.formula === 'string' ? data.formula : '',
+    harmonics: readHarmonics(data.harmonics, data.phases),
+    keyframes: Array.isArray(data.keyframes)
+      ? [...new Set(data.keyframes.map(Number).filter(k => Number.isInteger(k) && k >= 0 && k < frameCount))].sort((a, b) => a - b)
+      : [],
+    morphSettings: readMorphSettings(data.morphSettings),
+    laneSettings: readLaneSettings(data.laneSettings),
+    exportSettings: readExportSettings(data.exportSettings),
+  };
+};
+
+export const exportProjectFile = async (project: WaveforgeProject): Promise<Blob> => {
+  const json = new Blob([JSON.stringify(serializeProject(project))], { type: 'application/json' });
+  if (typeof CompressionStream === 'undefined') return json;
+  return new Response(json.stream().pipeThrough(new CompressionStream('gzip'))).blob();
+};
+
+export const parseProjectFile = async (buffer: ArrayBuffer): Promise<WaveforgeProject> => {
+  const bytes = new Uint8Array(buffer);
+  let text: string;
+  // gzip magic 1f 8b; plain JSON projects open too
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('This browser cannot decompress project files.');
+    }
+    text = await new Response(new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'))).text();
+  } else {
+    text = new TextDecoder().decode(bytes);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a WaveForge project file.');
+  }
+  return deserializeProject(raw);
+};
+
+// Bring any older serialized project up to the current shape
+const migrateProject = (raw: unknown): SerializedProject => {
+  const data = raw as Partial<SerializedProject> | null;
+  if (!data || typeof data !== 'object' || data.format !== PROJECT_FORMAT_ID) {
+    throw new Error('Not a WaveForge project file.');
+  }
+  if (typeof data.version !== 'number' || data.version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer version of WaveForge (format v${data.version}).`);
+  }
+  // Version 1 is the first format; later versions add their upgrade steps here, oldest first
+  return data as SerializedProject;
+};
+
+const sanitizeSource = (source: FrameSource | null | undefined): FrameSource | null => {
+  if (!source || !Object.values(GeneratorMode).includes(source.mode)) return null;
+  return {
+    mode: source.mode,
+    ...(typeof source.formula === 'string' && { formula: source.formula }),
+    ...readSourceHarmonics(source.harmonics, source.phases),
+    ...(Array.isArray(source.shape) && source.shape.length > 0 && { shape: readShape(source.shape) }),
+  };
+};
+
+const readShape = (points: Partial<VectorPoint>[]): VectorPoint[] => {
+  return normalizeShape(points.map(p => ({
+    x: Number(p?.x) || 0,
+    y: Number(p?.y) || 0,
+    curve: Object.values(CurveType).includes(p?.curve as CurveType) ? p?.curve as CurveType : CurveType.LINE,
+    bend: Number(p?.bend) || 0,
+  })));
+};
+
+// Phases are padded or cut to the amplitudes, so the editor can index both with one partial number
+const readHarmonics = (amplitudes: unknown, phases: unknown): HarmonicSpectrum => {
+  const amps = Array.isArray(amplitudes) ? amplitudes.slice(0, MAX_PARTIALS).map(v => Number(v) || 0) : [];
+  const phs = Array.isArray(phases) ? phases : [];
+  return { amplitudes: amps, phases: amps.map((_, h) => Number(phs[h]) || 0) };
+};
+
+// A frame without partials is analysed when opened in the editor, so empty ones are dropped
+const readSourceHarmonics = (amplitudes: unknown, phases: unknown): Pick<FrameSource, 'harmonics' | 'phases'> => {
+  const { amplitudes: harmonics, phases: matched } = readHarmonics(amplitudes, phases);
+  return harmonics.length > 0 ? { harmonics, phases: matched } : {};
+};
+
+const readMorphSettings = (saved: Partial<MorphSettings> | undefined): MorphSettings => {
+  const bezier = saved?.bezier;
+  const validBezier = Array.isArray(bezier) && bezier.length === 4 && bezier.every(v => typeof v === 'number' && Number.isFinite(v));
+  return {
+    mode: readEnum(saved?.mode, MorphMode, DEFAULT_MORPH_SETTINGS.mode),
+    easing: readEnum(saved?.easing, EasingCurve, DEFAULT_MORPH_SETTINGS.easing),
+    exponent: readNumber(saved?.exponent, 0.1, 8, DEFAULT_MORPH_SETTINGS.exponent),
+    // Same limits as the morph panel: x within 0..1 keeps the curve a function of time
+    bezier: validBezier
+      ? [readNumber(bezier[0], 0, 1, 0), readNumber(bezier[1], -1, 2, 0), readNumber(bezier[2], 0, 1, 1), readNumber(bezier[3], -1, 2, 1)]
+      : DEFAULT_MORPH_SETTINGS.bezier,
+  };
+};
+
+const readLaneSettings = (saved: Partial<HarmonicLaneSettings> | undefined): HarmonicLaneSettings => {
+  if (!saved || !Array.isArray(saved.lanes) || saved.lanes.length === 0) return DEFAULT_LANE_SETTINGS;
+  const lanes = saved.lanes.map((lane: HarmonicLane) => {
+    const start = Math.max(1, Math.min(MAX_PARTIALS, Math.floor(Number(lane.start)) || 1));
+    const saved = Array.isArray(lane.envelope) ? lane.envelope.map(v => Math.max(0, Math.min(1, Number(v) || 0))) : [];
+    return {
+      start,
+      end: Math.max(start, Math.min(MAX_PARTIALS, Math.floor(Number(lane.end)) || start)),
+      // The editor draws on a fixed grid; resample anything saved at another resolution
+      envelope: Array.from({ length: LANE_RESOLUTION }, (_, i) => sampleLane(saved, i / (LANE_RESOLUTION - 1))),
+    };
+  });
+  const frameCount = Math.max(1, Math.min(MAX_FRAMES, Math.floor(Number(saved.frameCount)) || DEFAULT_LANE_SETTINGS.frameCount));
+  return { lanes, frameCount };
+};
+
+// Checked field by field: anything missing or out of range falls back to the default
+const readExportSettings = (saved: Partial<ExportSettings> | undefined): ExportSettings => {
+  const defaults = DEFAULT_EXPORT_SETTINGS;
+  const wav = saved?.wav;
+  const image = saved?.image;
+  const render = saved?.render;
+  const bandLimit = saved?.bandLimitHarmonics;
+  return {
+    format: readEnum(saved?.format, ExportFormat, defaults.format),
+    wav: {
+      bitDepth: WAV_BIT_DEPTHS.includes(wav?.bitDepth as WavBitDepth) ? wav!.bitDepth : defaults.wav.bitDepth,
+      dither: readBoolean(wav?.dither, defaults.wav.dither),
+      sampleRate: Math.round(readNumber(wav?.sampleRate, 8000, 192000, defaults.wav.sampleRate)),
+      includeClm: readBoolean(wav?.includeClm, defaults.wav.includeClm),
+      normalize: readBoolean(wav?.normalize, defaults.wav.normalize),
+    },
+    surgeInt16: readBoolean(saved?.surgeInt16, defaults.surgeInt16),
+    image: {
+      content: readEnum(image?.content, ImageExportContent, defaults.image.content),
+      encoding: readEnum(image?.encoding, ImageEncoding, defaults.image.encoding),
+    },
+    bandLimitHarmonics: bandLimit === null || bandLimit === undefined
+      ? defaults.bandLimitHarmonics
+      : Math.round(readNumber(bandLimit, 1, MAX_FRAME_SIZE / 2, 256)),
+    render: {
+      sequence: typeof render?.sequence === 'string' ? render.sequence : defaults.render.sequence,
+      // Same limits as the export panel
+      noteLength: readNumber(render?.noteLength, 0.05, 10, defaults.render.noteLength),
+      sweepTime: readNumber(render?.sweepTime, 0, 60, defaults.render.sweepTime),
+    },
+  };
+};
+
+const WAV_BIT_DEPTHS: WavBitDepth[] = [16, 24, 32];
+
+const readEnum = <T extends string>(value: unknown, values: Record<string, T>, fallback: T): T => {
+  return Object.values(values).includes(value as T) ? (value as T) : fallback;
+};
+
+const readNumber = (value: unknown, min: number, max: number, fallback: number): number => {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+};
+
+const readBoolean = (value: unknown, fallback: boolean): boolean => {
+  return typeof value === 'boolean' ? value : fallback;
+};
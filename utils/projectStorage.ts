@@ -0,0 +1,46 @@
+import { WaveforgeProject, serializeProject, deserializeProject } from './projectFile';
+
+// --- AUTOSAVE ---
+// The last session lives in IndexedDB rather than localStorage: a full table is several MB of
+// base64, past localStorage's quota in most browsers.
+
+const DB_NAME = 'waveforge';
+const DB_VERSION = 1;
+const STORE_NAME = 'autosave';
+const SESSION_KEY = 'session';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveAutosave = async (project: WaveforgeProject): Promise<void> => {
+  await runRequest('readwrite', store => store.put(serializeProject(project), SESSION_KEY));
+};
+
+// Resolves to null when there is no previous session
+export const loadAutosave = async (): Promise<WaveforgeProject | null> => {
+  const raw = await runRequest('readonly', store => store.get(SESSION_KEY));
+  return raw ? deserializeProject(raw) : null;
+};
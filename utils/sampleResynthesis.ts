@@ -0,0 +1,230 @@
+import { FRAME_SIZE, GeneratorMode, MAX_PARTIALS, SampleResynthMethod, SampleResynthSettings } from '../types';
+import { generateFromHarmonics, normalizeBuffer } from './audioUtils';
+import { setFrameSource } from './frameSources';
+
+// --- SAMPLE RESYNTHESIS ---
+// Pitch is found with YIN on a few windows across the selected region, the region is cut into
+// single cycles at rising zero crossings spaced one period apart, and N evenly spaced cycles
+// become frames, either cut out directly or measured harmonically and rebuilt by IFFT.
+
+export interface DecodedSample {
+  name: string;
+  sampleRate: number;
+  samples: Float32Array;   // mono
+}
+
+const DECODE_SAMPLE_RATE = 44100;
+const MAX_SAMPLE_SECONDS = 120;
+
+const MIN_PITCH_HZ = 30;
+const MAX_PITCH_HZ = 2000;
+const YIN_WINDOW = 2048;
+const YIN_THRESHOLD = 0.15;
+const YIN_WINDOWS_PER_REGION = 5;
+// Zero crossings further than this (in periods) from the expected cycle end are ignored
+const CROSSING_TOLERANCE = 0.25;
+// Harmonic measurement window, centred on the cycle
+const ANALYSIS_PERIODS = 3;
+
+export const decodeAudioSample = async (buffer: ArrayBuffer, name: string): Promise<DecodedSample> => {
+  const ctx = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  const audio = await ctx.decodeAudioData(buffer);
+  if (audio.duration > MAX_SAMPLE_SECONDS) {
+    throw new Error(`Samples longer than ${MAX_SAMPLE_SECONDS / 60} minutes are not supported; trim it first.`);
+  }
+  const samples = new Float32Array(audio.length);
+  for (let c = 0; c < audio.numberOfChannels; c++) {
+    const channel = audio.getChannelData(c);
+    for (let i = 0; i < samples.length; i++) samples[i] += channel[i] / audio.numberOfChannels;
+  }
+  return { name, sampleRate: audio.sampleRate, samples };
+};
+
+// Fundamental in Hz over samples start..end, the median of the windows that found one
+export const detectPitch = (samples: Float32Array, sampleRate: number, start: number = 0, end: number = samples.length): number | null => {
+  const tauMax = Math.floor(sampleRate / MIN_PITCH_HZ);
+  const span = YIN_WINDOW + tauMax;
+  const first = Math.max(0, Math.min(start, samples.length - span));
+  const last = Math.max(first, Math.min(end, samples.length) - span);
+
+  const found: number[] = [];
+  for (let w = 0; w < YIN_WINDOWS_PER_REGION; w++) {
+    const offset = Math.round(first + ((last - first) * (w + 0.5)) / YIN_WINDOWS_PER_REGION);
+    const period = yinPeriod(samples, offset, sampleRate);
+    if (period !== null) found.push(sampleRate / period);
+  }
+  if (found.length === 0) return null;
+  found.sort((a, b) => a - b);
+  return found[Math.floor(found.length / 2)];
+};
+
+export const resynthesizeSample = (
+  sample: DecodedSample,
+  settings: SampleResynthSettings,
+  frequency: number,
+  size: number = FRAME_SIZE,
+  frameCount: number = settings.frameCount
+): Float32Array[] => {
+  const { samples, sampleRate } = sample;
+  const period = sampleRate / frequency;
+  const from = Math.floor(Math.min(settings.start, settings.end) * samples.length);
+  const to = Math.ceil(Math.max(settings.start, settings.end) * samples.length);
+  const starts = findCycleStarts(samples, period, from, to);
+  const cycleCount = starts.length - 1;
+  if (cycleCount < 1) throw new Error('The selected region is shorter than one cycle.');
+
+  return Array.from({ length: frameCount }, (_, f) => {
+    const k = frameCount > 1 ? Math.round((f * (cycleCount - 1)) / (frameCount - 1)) : Math.floor(cycleCount / 2);
+    const a = starts[k];
+    const b = starts[k + 1];
+    let frame: Float32Array;
+    if (settings.method === SampleResynthMethod.SPECTRAL) {
+      const spectrum = measureHarmonics(samples, a, b - a, Math.min(MAX_PARTIALS, size / 2 - 1));
+      frame = generateFromHarmonics(spectrum.amplitudes, spectrum.phases, size);
+    } else {
+      frame = normalizeBuffer(removeDc(cutCycle(samples, a, b, size)));
+    }
+    setFrameSource(frame, { mode: GeneratorMode.SAMPLE });
+    return frame;
+  });
+};
+
+// Period in samples of the window at `offset` (YIN with parabolic refinement), null if unpitched
+const yinPeriod = (samples: Float32Array, offset: number, sampleRate: number): number | null => {
+  const tauMin = Math.max(2, Math.floor(sampleRate / MAX_PITCH_HZ));
+  const tauMax = Math.min(Math.floor(sampleRate / MIN_PITCH_HZ), samples.length - offset - YIN_WINDOW - 1);
+  if (tauMax <= tauMin + 2) return null;
+
+  let energy = 0;
+  for (let i = 0; i < YIN_WINDOW; i++) energy += samples[offset + i] * samples[offset + i];
+  if (energy / YIN_WINDOW < 1e-7) return null;
+
+  // Cumulative mean normalised difference
+  const cmnd = new Float32Array(tauMax + 1);
+  cmnd[0] = 1;
+  let running = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let sum = 0;
+    for (let i = 0; i < YIN_WINDOW; i++) {
+      const d = samples[offset + i] - samples[offset + i + tau];
+      sum += d * d;
+    }
+    running += sum;
+    cmnd[tau] = running > 0 ? (sum * tau) / running : 1;
+  }
+
+  let tau = -1;
+  for (let t = tauMin; t < tauMax; t++) {
+    if (cmnd[t] < YIN_THRESHOLD) {
+      while (t + 1 < tauMax && cmnd[t + 1] < cmnd[t]) t++;
+      tau = t;
+      break;
+    }
+  }
+  if (tau < 0) return null;
+
+  const prev = cmnd[tau - 1];
+  const next = cmnd[tau + 1];
+  const denom = prev - 2 * cmnd[tau] + next;
+  return denom > 0 ? tau + (prev - next) / (2 * denom) : tau;
+};
+
+// Fractional positions of rising zero crossings one period apart; where the signal has no
+// crossing close enough to the expected spot the cycle is cut there anyway
+const findCycleStarts = (samples: Float32Array, period: number, from: number, to: number): number[] => {
+  const first = findRisingCrossing(samples, from, from + period, from + period / 2) ?? from;
+  const starts = [first];
+  let position = first;
+  while (position + period <= to) {
+    const expected = position + period;
+    const tolerance = period * CROSSING_TOLERANCE;
+    position = findRisingCrossing(samples, expected - tolerance, expected + tolerance, expected) ?? expected;
+    starts.push(position);
+  }
+  return starts;
+};
+
+// Rising crossing between lo and hi closest to target
+const findRisingCrossing = (samples: Float32Array, lo: number, hi: number, target: number): number | null => {
+  let best: number | null = null;
+  const end = Math.min(samples.length - 1, Math.ceil(hi));
+  for (let i = Math.max(0, Math.floor(lo)); i < end; i++) {
+    const current = samples[i];
+    const next = samples[i + 1];
+    if (current <= 0 && next > 0) {
+      const crossing = i + current / (current - next);
+      if (best === null || Math.abs(crossing - target) < Math.abs(best - target)) best = crossing;
+    }
+  }
+  return best;
+};
+
+// Cubic (Catmull-Rom) read of samples a..b stretched to `size` points
+const cutCycle = (samples: Float32Array, a: number, b: number, size: number): Float32Array => {
+  const last = samples.length - 1;
+  const at = (i: number) => samples[Math.max(0, Math.min(last, i))];
+  const frame = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const pos = a + ((b - a) * i) / size;
+    const idx = Math.floor(pos);
+    const frac = pos - idx;
+    const y0 = at(idx - 1);
+    const y1 = at(idx);
+    const y2 = at(idx + 1);
+    const y3 = at(idx + 2);
+    frame[i] = ((((-0.5 * y0 + 1.5 * y1 - 1.5 * y2 + 0.5 * y3) * frac) + (y0 - 2.5 * y1 + 2 * y2 - 0.5 * y3)) * frac + (-0.5 * y0 + 0.5 * y2)) * frac + y1;
+  }
+  return frame;
+};
+
+const removeDc = (frame: Float32Array): Float32Array => {
+  let mean = 0;
+  for (let i = 0; i < frame.length; i++) mean += frame[i] / frame.length;
+  for (let i = 0; i < frame.length; i++) frame[i] -= mean;
+  return frame;
+};
+
+// Amplitude and sine phase of harmonics 1..count of the cycle starting at `start`, measured
+// with a Hann window a few periods wide so neighbouring harmonics don't leak into each other.
+// Phases are relative to the cycle start wherever the window sits.
+const measureHarmonics = (samples: Float32Array, start: number, period: number, count: number) => {
+  const total = Math.min(count, Math.floor(period / 2) - 1);
+  const half = (ANALYSIS_PERIODS * period) / 2;
+  // Near the ends of the sample the window slides inwards rather than getting cut off
+  const centre = Math.max(half, Math.min(samples.length - 1 - half, start + period / 2));
+  const lo = Math.max(0, Math.ceil(centre - half));
+  const hi = Math.min(samples.length - 1, Math.floor(centre + half));
+
+  const amplitudes = new Array<number>(Math.max(0, total)).fill(0);
+  const phases = new Array<number>(Math.max(0, total)).fill(0);
+  let windowSum = 0;
+  const windowed = new Float32Array(hi - lo + 1);
+  for (let n = lo; n <= hi; n++) {
+    const w = 0.5 + 0.5 * Math.cos((Math.PI * (n - centre)) / half);
+    windowed[n - lo] = samples[n] * w;
+    windowSum += w;
+  }
+  if (windowSum === 0) return { amplitudes, phases };
+
+  for (let h = 1; h <= total; h++) {
+    const omega = (2 * Math.PI * h) / period;
+    // Rotate a phasor instead of calling cos/sin per sample; time is measured from the cycle start
+    const stepRe = Math.cos(omega);
+    const stepIm = -Math.sin(omega);
+    let re = Math.cos(omega * (lo - start));
+    let im = -Math.sin(omega * (lo - start));
+    let sumRe = 0;
+    let sumIm = 0;
+    for (let n = 0; n < windowed.length; n++) {
+      sumRe += windowed[n] * re;
+      sumIm += windowed[n] * im;
+      const nextRe = re * stepRe - im * stepIm;
+      im = re * stepIm + im * stepRe;
+      re = nextRe;
+    }
+    amplitudes[h - 1] = (2 * Math.hypot(sumRe, sumIm)) / windowSum;
+    // Cosine phase from the correlation; generateFromHarmonics takes sine phase
+    phases[h - 1] = Math.atan2(sumIm, sumRe) + Math.PI / 2;
+  }
+  return { amplitudes, phases };
+};
@@ -0,0 +1,71 @@
+import { ScanSettings, ScanSource, ScanDirection, LfoShape } from '../types';
+
+// --- TABLE SCAN MODULATION ---
+// Pure functions of time so the live preview and offline renders scan identically.
+
+export const getLfoRate = (settings: ScanSettings): number => {
+  return settings.tempoSync ? settings.bpm / 60 / settings.syncBeats : settings.lfoRate;
+};
+
+// Table position (0..1) at `seconds`: LFO time since scanning started, envelope time since note on
+export const getScanPosition = (settings: ScanSettings, seconds: number): number => {
+  let value: number;
+  switch (settings.source) {
+    case ScanSource.LFO: {
+      const cycles = Math.max(0, seconds) * getLfoRate(settings);
+      const cycle = Math.floor(cycles);
+      value = getLfoValue(settings.lfoShape, applyDirection(cycles - cycle, settings.direction), cycle);
+      break;
+    }
+    case ScanSource.ENVELOPE: {
+      const progress = settings.envelopeTime > 0 ? Math.min(1, Math.max(0, seconds) / settings.envelopeTime) : 1;
+      value = applyDirection(progress, settings.direction);
+      break;
+    }
+    default:
+      value = settings.manual;
+  }
+  return settings.rangeStart + (settings.rangeEnd - settings.rangeStart) * value;
+};
+
+// One envelope sweep sampled for AudioParam.setValueCurveAtTime
+export const buildEnvelopeCurve = (settings: ScanSettings, points: number = 64): Float32Array => {
+  const curve = new Float32Array(points);
+  for (let i = 0; i < points; i++) {
+    curve[i] = getScanPosition(settings, (i / (points - 1)) * settings.envelopeTime);
+  }
+  return curve;
+};
+
+const applyDirection = (phase: number, direction: ScanDirection): number => {
+  switch (direction) {
+    case ScanDirection.REVERSE:
+      return 1 - phase;
+    case ScanDirection.PING_PONG:
+      return phase < 0.5 ? phase * 2 : 2 - phase * 2;
+    default:
+      return phase;
+  }
+};
+
+// Unipolar LFO output; every shape starts its cycle at 0
+const getLfoValue = (shape: LfoShape, phase: number, cycle: number): number => {
+  switch (shape) {
+    case LfoShape.SINE:
+      return 0.5 - 0.5 * Math.cos(phase * Math.PI * 2);
+    case LfoShape.TRIANGLE:
+      return phase < 0.5 ? phase * 2 : 2 - phase * 2;
+    case LfoShape.RANDOM:
+      // Sample & hold: a new value per cycle, derived from the cycle number so it is repeatable
+      return hashToUnit(cycle);
+    default:
+      return phase;
+  }
+};
+
+const hashToUnit = (n: number): number => {
+  let h = Math.imul(n ^ 0x9e3779b9, 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+};
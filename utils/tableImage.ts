@@ -0,0 +1,159 @@
+import { ImageEncoding, ImageExportContent, ImageExportOptions, MAX_PARTIALS } from '../types';
+import { analyzeHarmonics } from './fft';
+
+// --- WAVETABLE TO PNG ---
+// One row per frame. WAVEFORM rows hold the samples (-1..1 mapped to 0..max), SPECTRUM rows the
+// harmonic magnitudes scaled to the loudest partial in the table, so the files read back through
+// the image importer's Rows and Spectrogram modes. A tEXt chunk records how the image was written;
+// the importer uses it to pick the matching settings.
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const METADATA_KEYWORD = 'WaveForge';
+
+export interface TableImageMetadata {
+  content: ImageExportContent;
+  encoding: ImageEncoding;
+}
+
+export const exportWavetableToPng = async (frames: Float32Array[], options: ImageExportOptions): Promise<Blob> => {
+  const rows = options.content === ImageExportContent.SPECTRUM ? getSpectrumRows(frames) : getWaveformRows(frames);
+  const width = rows[0].length;
+  const height = rows.length;
+  const packed = options.encoding === ImageEncoding.RG16;
+  const channels = packed ? 3 : 1;
+  const stride = width * channels + 1;
+
+  // Filter type 0 (none) on every scanline
+  const raw = new Uint8Array(stride * height);
+  rows.forEach((row, y) => {
+    for (let x = 0; x < width; x++) {
+      const level = Math.max(0, Math.min(1, row[x]));
+      const offset = y * stride + 1 + x * channels;
+      if (packed) {
+        const value = Math.round(level * 65535);
+        raw[offset] = value >> 8;
+        raw[offset + 1] = value & 0xff;
+      } else {
+        raw[offset] = Math.round(level * 255);
+      }
+    }
+  });
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8;                // bits per channel
+  header[9] = packed ? 2 : 0;   // truecolour or greyscale
+
+  const metadata: TableImageMetadata = { content: options.content, encoding: options.encoding };
+  const text = new TextEncoder().encode(`${METADATA_KEYWORD}\0${JSON.stringify(metadata)}`);
+
+  return new Blob([
+    new Uint8Array(PNG_SIGNATURE),
+    makeChunk('IHDR', header),
+    makeChunk('tEXt', text),
+    makeChunk('IDAT', await zlibCompress(raw)),
+    makeChunk('IEND', new Uint8Array(0)),
+  ], { type: 'image/png' });
+};
+
+// The export's tEXt record, or null for any other image
+export const readTableImageMetadata = (buffer: ArrayBuffer): TableImageMetadata | null => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length < 8 || PNG_SIGNATURE.some((b, i) => bytes[i] !== b)) return null;
+  const view = new DataView(buffer);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type === 'IDAT' || type === 'IEND') break; // text chunks we write come before the data
+    if (type === 'tEXt') {
+      const text = new TextDecoder('latin1').decode(bytes.subarray(offset + 8, offset + 8 + length));
+      const separator = text.indexOf('\0');
+      if (text.slice(0, separator) === METADATA_KEYWORD) {
+        try {
+          const parsed = JSON.parse(text.slice(separator + 1)) as TableImageMetadata;
+          if (Object.values(ImageExportContent).includes(parsed.content) && Object.values(ImageEncoding).includes(parsed.encoding)) {
+            return parsed;
+          }
+        } catch {
+          return null;
+        }
+      }
+    }
+    offset += length + 12;
+  }
+  return null;
+};
+
+const getWaveformRows = (frames: Float32Array[]): Float32Array[] => {
+  return frames.map(frame => frame.map(v => (v + 1) / 2));
+};
+
+const getSpectrumRows = (frames: Float32Array[]): Float32Array[] => {
+  const spectra = frames.map(frame => analyzeHarmonics(frame, MAX_PARTIALS).amplitudes);
+  const peak = Math.max(1e-9, ...spectra.map(amps => Math.max(...amps)));
+  return spectra.map(amps => Float32Array.from(amps, a => a / peak));
+};
+
+const makeChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+};
+
+// zlib stream for IDAT; uncompressed deflate blocks where CompressionStream is missing
+const zlibCompress = async (data: Uint8Array): Promise<Uint8Array> => {
+  if (typeof CompressionStream !== 'undefined') {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+  const blockSize = 0xffff;
+  const blockCount = Math.max(1, Math.ceil(data.length / blockSize));
+  const out = new Uint8Array(2 + data.length + blockCount * 5 + 4);
+  const view = new DataView(out.buffer);
+  out[0] = 0x78;
+  out[1] = 0x01;
+  let offset = 2;
+  for (let b = 0; b < blockCount; b++) {
+    const block = data.subarray(b * blockSize, (b + 1) * blockSize);
+    out[offset] = b === blockCount - 1 ? 1 : 0;
+    view.setUint16(offset + 1, block.length, true);
+    view.setUint16(offset + 3, ~block.length & 0xffff, true);
+    out.set(block, offset + 5);
+    offset += block.length + 5;
+  }
+  view.setUint32(offset, adler32(data));
+  return out;
+};
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (data: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
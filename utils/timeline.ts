@@ -0,0 +1,116 @@
+import { MAX_FRAMES } from '../types';
+import { cloneFrame } from './frameSources';
+
+// --- TIMELINE OPERATIONS ---
+// Pure edits on the frame list. Each returns the whole new state so the caller can record one
+// undo step and apply it at once; keyframe marks travel with their frames.
+
+export interface TimelineState {
+  frames: Float32Array[];
+  currentIndex: number;
+  selection: number[];   // sorted, always contains currentIndex
+  keyframes: number[];
+}
+
+export type SelectMode = 'replace' | 'range' | 'toggle';
+
+// Click (replace), shift-click (range from the anchor) or ctrl-click (toggle) on a frame
+export const selectFrames = (selection: number[], anchor: number, index: number, mode: SelectMode): number[] => {
+  if (mode === 'range') {
+    const [from, to] = anchor <= index ? [anchor, index] : [index, anchor];
+    return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  }
+  if (mode === 'toggle') {
+    if (!selection.includes(index)) return [...selection, index].sort((a, b) => a - b);
+    const rest = selection.filter(i => i !== index);
+    return rest.length ? rest : [index];
+  }
+  return [index];
+};
+
+// A fresh frame right after the current one
+export const insertFrameAfter = (state: TimelineState, frame: Float32Array): TimelineState | null => {
+  if (state.frames.length >= MAX_FRAMES) return null;
+  const at = state.currentIndex + 1;
+  const order = [...indices(0, at), frame, ...indices(at, state.frames.length)];
+  return rebuild(state, order, [at], at);
+};
+
+// Copies of the selected frames go right after the last selected frame and become the selection
+export const duplicateSelection = (state: TimelineState): TimelineState | null => {
+  return insertCopies(state, state.selection.map(i => state.frames[i]), state.selection.indexOf(state.currentIndex));
+};
+
+export const pasteFrames = (state: TimelineState, clipboard: Float32Array[]): TimelineState | null => {
+  return insertCopies(state, clipboard, 0);
+};
+
+export const deleteSelection = (state: TimelineState): TimelineState | null => {
+  const { frames, selection } = state;
+  if (selection.length >= frames.length) return null; // a table needs at least one frame
+  const order = indices(0, frames.length).filter(i => !selection.includes(i));
+  const current = Math.min(selection[0], order.length - 1);
+  return rebuild(state, order, [current], current);
+};
+
+// The selected frames swap places end to end; unselected frames stay put
+export const reverseSelection = (state: TimelineState): TimelineState => {
+  const { selection } = state;
+  const order: number[] = indices(0, state.frames.length);
+  selection.forEach((slot, k) => {
+    order[slot] = selection[selection.length - 1 - k];
+  });
+  return rebuild(state, order, selection, state.currentIndex);
+};
+
+// Move the selection, in order, to the gap before old index `slot` (frames.length = the end)
+export const moveSelection = (state: TimelineState, slot: number): TimelineState | null => {
+  const { frames, selection, currentIndex } = state;
+  const rest = indices(0, frames.length).filter(i => !selection.includes(i));
+  const at = rest.filter(i => i < slot).length;
+  const order = [...rest.slice(0, at), ...selection, ...rest.slice(at)];
+  if (order.every((source, i) => source === i)) return null;
+  const moved = selection.map((_, k) => at + k);
+  return rebuild(state, order, moved, at + selection.indexOf(currentIndex));
+};
+
+// Swap in a resized table; the current frame and keyframe marks keep their relative position
+export const resizeTimeline = (state: TimelineState, frames: Float32Array[]): TimelineState => {
+  const last = state.frames.length - 1;
+  const scale = (i: number) => (last > 0 ? Math.round((i * (frames.length - 1)) / last) : 0);
+  const currentIndex = scale(state.currentIndex);
+  return {
+    frames,
+    currentIndex,
+    selection: [currentIndex],
+    keyframes: [...new Set(state.keyframes.map(scale))],
+  };
+};
+
+const insertCopies = (state: TimelineState, source: Float32Array[], focus: number): TimelineState | null => {
+  const room = MAX_FRAMES - state.frames.length;
+  if (room <= 0 || source.length === 0) return null;
+  const copies = source.slice(0, room).map(cloneFrame);
+  const at = state.selection[state.selection.length - 1] + 1;
+  const order = [...indices(0, at), ...copies, ...indices(at, state.frames.length)];
+  const inserted = copies.map((_, k) => at + k);
+  return rebuild(state, order, inserted, inserted[Math.max(0, Math.min(copies.length - 1, focus))]);
+};
+
+// Numbers in `order` are old frame indices, arrays are new frames
+const rebuild = (
+  state: TimelineState,
+  order: (number | Float32Array)[],
+  selection: number[],
+  currentIndex: number
+): TimelineState => {
+  const keyed = new Set(state.keyframes);
+  return {
+    frames: order.map(entry => (typeof entry === 'number' ? state.frames[entry] : entry)),
+    currentIndex,
+    selection: [...selection].sort((a, b) => a - b),
+    keyframes: order.flatMap((entry, i) => (typeof entry === 'number' && keyed.has(entry) ? [i] : [])),
+  };
+};
+
+const indices = (from: number, to: number): number[] => Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i);
@@ -0,0 +1,107 @@
+import { CurveType, FRAME_SIZE, GeneratorMode, VectorPoint } from '../types';
+import { setFrameSource } from './frameSources';
+
+// --- VECTOR SHAPES ---
+// A shape is a sorted list of breakpoints around one cycle. The last segment runs to the first
+// point's level at the end of the cycle, so every shape loops without a jump.
+
+// Sorted, clamped copy with the first point pinned to the start of the cycle
+export const normalizeShape = (points: VectorPoint[]): VectorPoint[] => {
+  const sorted = points
+    .map(p => ({
+      x: Math.max(0, Math.min(1, p.x)),
+      y: Math.max(-1, Math.min(1, p.y)),
+      curve: p.curve,
+      bend: Math.max(-1, Math.min(1, p.bend)),
+    }))
+    .sort((a, b) => a.x - b.x);
+  if (sorted.length) sorted[0].x = 0;
+  return sorted;
+};
+
+// The shape as samples, without provenance (for drawing)
+export const sampleShape = (points: VectorPoint[], size: number): Float32Array => {
+  const frame = new Float32Array(size);
+  if (points.length === 0) return frame;
+  let segment = 0;
+  for (let i = 0; i < size; i++) {
+    const x = i / size;
+    while (segment < points.length - 1 && points[segment + 1].x <= x) segment++;
+    const [a, b] = getSegment(points, segment);
+    const width = b.x - a.x;
+    frame[i] = width > 0 ? segmentLevel(a, b, (x - a.x) / width) : a.y;
+  }
+  return frame;
+};
+
+// A VECTOR frame that keeps its shape for editing and morphing
+export const renderShape = (points: VectorPoint[], size: number = FRAME_SIZE): Float32Array => {
+  const frame = sampleShape(points, size);
+  setFrameSource(frame, { mode: GeneratorMode.VECTOR, shape: points });
+  return frame;
+};
+
+// Blend two shapes point by point. When the point counts differ, the shorter shape first gets
+// extra points on its widest segments so every point has a partner.
+export const morphShapes = (a: VectorPoint[], b: VectorPoint[], t: number): VectorPoint[] => {
+  const count = Math.max(a.length, b.length);
+  const from = matchPointCount(a, count);
+  const to = matchPointCount(b, count);
+  return from.map((p, i) => {
+    const q = to[i];
+    return {
+      x: p.x + (q.x - p.x) * t,
+      y: p.y + (q.y - p.y) * t,
+      curve: t < 0.5 ? p.curve : q.curve,
+      bend: p.bend + (q.bend - p.bend) * t,
+    };
+  });
+};
+
+const matchPointCount = (points: VectorPoint[], count: number): VectorPoint[] => {
+  const result = [...points];
+  while (result.length < count) {
+    let widest = 0;
+    for (let i = 1; i < result.length; i++) {
+      const [a, b] = getSegment(result, i);
+      const [wa, wb] = getSegment(result, widest);
+      if (b.x - a.x > wb.x - wa.x) widest = i;
+    }
+    const [a, b] = getSegment(result, widest);
+    // Splitting a bent or eased segment only approximates it, but the split point sits on the curve
+    result.splice(widest + 1, 0, { x: (a.x + b.x) / 2, y: segmentLevel(a, b, 0.5), curve: a.curve, bend: a.bend });
+  }
+  return result;
+};
+
+// Start and end point of the segment leaving point `index`; the last one wraps to x = 1
+const getSegment = (points: VectorPoint[], index: number): [VectorPoint, VectorPoint] => {
+  const a = points[index];
+  const b = index < points.length - 1 ? points[index + 1] : { ...points[0], x: 1 };
+  return [a, b];
+};
+
+// Level at fraction t of the way from a to b
+const segmentLevel = (a: VectorPoint, b: VectorPoint, t: number): number => {
+  switch (a.curve) {
+    case CurveType.STEP:
+      return a.y;
+    case CurveType.SINE:
+      return a.y + ((b.y - a.y) * (1 - Math.cos(Math.PI * t))) / 2;
+    case CurveType.BEZIER:
+      return a.y + (b.y - a.y) * bendCurve(t, a.bend);
+    default:
+      return a.y + (b.y - a.y) * t;
+  }
+};
+
+// Quadratic bezier from (0,0) to (1,1) whose control point slides from the lower right corner
+// (bend -1, slow start) through the diagonal (0, straight) to the upper left (1, fast start)
+const bendCurve = (t: number, bend: number): number => {
+  const cx = (1 - bend) / 2;
+  const cy = (1 + bend) / 2;
+  // Solve x(u) = t for the curve parameter
+  const k = 1 - 2 * cx;
+  const u = Math.abs(k) < 1e-9 ? t : (-cx + Math.sqrt(cx * cx + k * t)) / k;
+  return 2 * u * (1 - u) * cy + u * u;
+};
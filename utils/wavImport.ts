@@ -0,0 +1,180 @@
+import { MAX_FRAMES } from '../types';
+import { resampleCycle } from './audioUtils';
+
+// --- WAV IMPORT ---
+
+export interface WavImportOptions {
+  // Cycle length used when the file carries no Serum 'clm ' chunk
+  fallbackCycleLength: number;
+  // Cycle length of the table the frames are imported into
+  frameSize: number;
+}
+
+export interface WavImportResult {
+  frames: Float32Array[];
+  sampleRate: number;
+  cycleLength: number;
+  cycleLengthFromClm: boolean;
+  // Number of complete cycles found in the file before capping to MAX_FRAMES
+  totalCycles: number;
+}
+
+interface WavFormat {
+  audioFormat: number;
+  numChannels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  blockAlign: number;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export const parseWavetableWav = (buffer: ArrayBuffer, options: WavImportOptions): WavImportResult => {
+  const view = new DataView(buffer);
+
+  if (buffer.byteLength < 12 || readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'WAVE') {
+    throw new Error('Not a WAV file: missing RIFF/WAVE header.');
+  }
+
+  let format: WavFormat | null = null;
+  let dataOffset = -1;
+  let dataSize = 0;
+  let clmCycleLength: number | null = null;
+
+  // Walk the chunk list. Chunks are word aligned, so odd sizes carry a pad byte.
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readString(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = parseFormatChunk(view, body, size);
+    } else if (id === 'data') {
+      dataOffset = body;
+      // Some writers leave the size unset or larger than the file when streaming
+      dataSize = Math.min(size, buffer.byteLength - body);
+    } else if (id === 'clm ') {
+      clmCycleLength = parseClmChunk(view, body, Math.min(size, buffer.byteLength - body));
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (!format) throw new Error('Invalid WAV file: no "fmt " chunk found.');
+  if (dataOffset < 0) throw new Error('Invalid WAV file: no "data" chunk found.');
+
+  const samples = decodeSamples(view, dataOffset, dataSize, format);
+  const cycleLengthFromClm = clmCycleLength !== null;
+  const cycleLength = clmCycleLength ?? options.fallbackCycleLength;
+
+  if (!Number.isInteger(cycleLength) || cycleLength < 2) {
+    throw new Error(`Invalid cycle length: ${cycleLength}.`);
+  }
+
+  const totalCycles = Math.floor(samples.length / cycleLength);
+  if (totalCycles === 0) {
+    throw new Error(`The file holds ${samples.length} samples, fewer than one ${cycleLength}-sample cycle.`);
+  }
+
+  const frameCount = Math.min(totalCycles, MAX_FRAMES);
+  const frames: Float32Array[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    const cycle = samples.subarray(f * cycleLength, (f + 1) * cycleLength);
+    frames.push(resampleCycle(cycle, options.frameSize));
+  }
+
+  return {
+    frames,
+    sampleRate: format.sampleRate,
+    cycleLength,
+    cycleLengthFromClm,
+    totalCycles,
+  };
+};
+
+const parseFormatChunk = (view: DataView, offset: number, size: number): WavFormat => {
+  if (size < 16) throw new Error('Invalid WAV file: "fmt " chunk is too short.');
+
+  let audioFormat = view.getUint16(offset, true);
+  const numChannels = view.getUint16(offset + 2, true);
+  const sampleRate = view.getUint32(offset + 4, true);
+  const blockAlign = view.getUint16(offset + 12, true);
+  const bitsPerSample = view.getUint16(offset + 14, true);
+
+  // WAVE_FORMAT_EXTENSIBLE stores the real format in the first two bytes of the sub-format GUID
+  if (audioFormat === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+    audioFormat = view.getUint16(offset + 24, true);
+  }
+
+  if (numChannels < 1) throw new Error('Invalid WAV file: zero channels.');
+
+  const supported =
+    (audioFormat === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample)) ||
+    (audioFormat === WAVE_FORMAT_IEEE_FLOAT && (bitsPerSample === 32 || bitsPerSample === 64));
+  if (!supported) {
+    const name = audioFormat === WAVE_FORMAT_PCM ? 'PCM' : audioFormat === WAVE_FORMAT_IEEE_FLOAT ? 'float' : `format ${audioFormat}`;
+    throw new Error(`Unsupported WAV encoding: ${bitsPerSample}-bit ${name}.`);
+  }
+
+  return { audioFormat, numChannels, sampleRate, bitsPerSample, blockAlign };
+};
+
+// Serum writes e.g. "<!>2048 01000000 wavetable (www.xferrecords.com)"
+const parseClmChunk = (view: DataView, offset: number, size: number): number | null => {
+  const text = readString(view, offset, size);
+  const match = /<!>\s*(\d+)/.exec(text);
+  if (!match) return null;
+  const length = parseInt(match[1], 10);
+  return length > 1 ? length : null;
+};
+
+// Decode interleaved samples to mono floats in -1..1, summing (averaging) multiple channels
+const decodeSamples = (view: DataView, offset: number, size: number, format: WavFormat): Float32Array => {
+  const bytesPerSample = format.bitsPerSample / 8;
+  const blockAlign = format.blockAlign || bytesPerSample * format.numChannels;
+  const numSamples = Math.floor(size / blockAlign);
+  const out = new Float32Array(numSamples);
+  const isFloat = format.audioFormat === WAVE_FORMAT_IEEE_FLOAT;
+
+  for (let i = 0; i < numSamples; i++) {
+    let sum = 0;
+    for (let ch = 0; ch < format.numChannels; ch++) {
+      const pos = offset + i * blockAlign + ch * bytesPerSample;
+      sum += isFloat ? readFloatSample(view, pos, format.bitsPerSample) : readIntSample(view, pos, format.bitsPerSample);
+    }
+    out[i] = sum / format.numChannels;
+  }
+  return out;
+};
+
+const readFloatSample = (view: DataView, pos: number, bits: number): number => {
+  return bits === 64 ? view.getFloat64(pos, true) : view.getFloat32(pos, true);
+};
+
+const readIntSample = (view: DataView, pos: number, bits: number): number => {
+  switch (bits) {
+    case 8:
+      // 8-bit WAV is unsigned
+      return (view.getUint8(pos) - 128) / 128;
+    case 16:
+      return view.getInt16(pos, true) / 32768;
+    case 24: {
+      let value = view.getUint8(pos) | (view.getUint8(pos + 1) << 8) | (view.getUint8(pos + 2) << 16);
+      if (value & 0x800000) value -= 0x1000000;
+      return value / 8388608;
+    }
+    default:
+      return view.getInt32(pos, true) / 2147483648;
+  }
+};
+
+const readString = (view: DataView, offset: number, length: number): string => {
+  let result = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    result += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return result;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_FRAMES } from '../types';
+import { interpolateFrames } from './audioUtils';
+import { exportWavetableToVital, parseVitalTable } from './wavetableFormats';
+
+const SIZE = 2048;
+// Every frame a different constant level, so frames are told apart by their first sample
+const table = (count: number) => Array.from({ length: count }, (_, i) => new Float32Array(SIZE).fill(i / count));
+
+const readPositions = (text: string): number[] => JSON.parse(text).groups[0].components[0].keyframes.map((kf: { position: number }) => kf.position);
+
+describe('Vital wavetables', () => {
+  it('spreads exported keyframes over the whole 0..256 position axis', async () => {
+    const positions = readPositions(await exportWavetableToVital(table(64), 'test').text());
+    expect(positions).toHaveLength(64);
+    expect(positions[0]).toBe(0);
+    expect(positions[1]).toBe(4);
+    expect(positions[63]).toBe(256);
+    expect(readPositions(await exportWavetableToVital(table(1), 'test').text())).toEqual([0]);
+  });
+
+  it('round-trips a table with its first and last frames exact', async () => {
+    const frames = table(64);
+    const imported = parseVitalTable(await exportWavetableToVital(frames, 'test').text(), SIZE).frames;
+    expect(imported).toHaveLength(MAX_FRAMES);
+    expect(imported[0]).toEqual(frames[0]);
+    expect(imported[MAX_FRAMES - 1]).toEqual(frames[63]);
+  });
+
+  it('round-trips a two-frame table as a sweep between them', async () => {
+    const frames = [new Float32Array(SIZE).fill(-1), new Float32Array(SIZE).fill(1)];
+    const imported = parseVitalTable(await exportWavetableToVital(frames, 'test').text(), SIZE).frames;
+    const middle = interpolateFrames(frames[0], frames[1], 128 / 255);
+    expect(imported[128][0]).toBeCloseTo(middle[0], 5);
+  });
+});
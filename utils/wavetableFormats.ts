@@ -0,0 +1,249 @@
+import { FRAME_SIZE, MAX_FRAMES } from '../types';
+import { interpolateFrames, resampleCycle } from './audioUtils';
+import { parseWavetableWav, WavImportOptions } from './wavImport';
+
+export interface WavetableImportResult {
+  frames: Float32Array[];
+  // Samples per cycle as stored in the file, before resampling to the table's cycle length
+  cycleLength: number;
+  // Number of frames found in the file before capping to MAX_FRAMES
+  totalCycles: number;
+}
+
+// --- SURGE .WT ---
+// Layout: 'vawt' tag, uint32 samples per frame, uint16 frame count, uint16 flags, then the sample data.
+
+const SURGE_FLAG_IS_SAMPLE = 0x01;
+const SURGE_FLAG_INT16 = 0x04;
+const SURGE_FLAG_INT16_FULL_RANGE = 0x08;
+const SURGE_HEADER_SIZE = 12;
+const SURGE_MAX_FRAME_SIZE = 4096;
+const SURGE_MAX_FRAMES = 512;
+
+export const exportWavetableToSurgeWt = (frames: Float32Array[], int16: boolean): Blob => {
+  const frameSize = frames[0]?.length ?? FRAME_SIZE;
+  const bytesPerSample = int16 ? 2 : 4;
+  const buffer = new ArrayBuffer(SURGE_HEADER_SIZE + frames.length * frameSize * bytesPerSample);
+  const view = new DataView(buffer);
+
+  writeTag(view, 0, 'vawt');
+  view.setUint32(4, frameSize, true);
+  view.setUint16(8, frames.length, true);
+  view.setUint16(10, int16 ? SURGE_FLAG_INT16 | SURGE_FLAG_INT16_FULL_RANGE : 0, true);
+
+  let offset = SURGE_HEADER_SIZE;
+  frames.forEach(frame => {
+    for (let i = 0; i < frameSize; i++) {
+      if (int16) {
+        const value = Math.round(Math.max(-1, Math.min(1, frame[i])) * 32767);
+        view.setInt16(offset, value, true);
+      } else {
+        view.setFloat32(offset, frame[i], true);
+      }
+      offset += bytesPerSample;
+    }
+  });
+
+  return new Blob([buffer], { type: 'application/octet-stream' });
+};
+
+export const parseSurgeWt = (buffer: ArrayBuffer, targetSize: number = FRAME_SIZE): WavetableImportResult => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < SURGE_HEADER_SIZE || readTag(view, 0) !== 'vawt') {
+    throw new Error('Not a Surge wavetable: missing "vawt" header.');
+  }
+
+  const frameSize = view.getUint32(4, true);
+  const frameCount = view.getUint16(8, true);
+  const flags = view.getUint16(10, true);
+
+  if (flags & SURGE_FLAG_IS_SAMPLE) {
+    throw new Error('This .wt file holds a one-shot sample, not a wavetable.');
+  }
+  if (frameSize < 2 || frameSize > SURGE_MAX_FRAME_SIZE || (frameSize & (frameSize - 1)) !== 0) {
+    throw new Error(`Invalid Surge wavetable: frame size ${frameSize} is not a power of two up to ${SURGE_MAX_FRAME_SIZE}.`);
+  }
+  if (frameCount === 0 || frameCount > SURGE_MAX_FRAMES) {
+    throw new Error(`Invalid Surge wavetable: frame count ${frameCount}.`);
+  }
+
+  const isInt16 = (flags & SURGE_FLAG_INT16) !== 0;
+  const bytesPerSample = isInt16 ? 2 : 4;
+  // Without the full-range flag, Surge stores int16 tables with a 15-bit peak
+  const intScale = flags & SURGE_FLAG_INT16_FULL_RANGE ? 32768 : 16384;
+
+  if (buffer.byteLength < SURGE_HEADER_SIZE + frameSize * frameCount * bytesPerSample) {
+    throw new Error('Invalid Surge wavetable: the file is shorter than its header announces.');
+  }
+
+  const loaded = Math.min(frameCount, MAX_FRAMES);
+  const frames: Float32Array[] = [];
+  let offset = SURGE_HEADER_SIZE;
+  for (let f = 0; f < loaded; f++) {
+    const cycle = new Float32Array(frameSize);
+    for (let i = 0; i < frameSize; i++) {
+      cycle[i] = isInt16 ? view.getInt16(offset, true) / intScale : view.getFloat32(offset, true);
+      offset += bytesPerSample;
+    }
+    frames.push(resampleCycle(cycle, targetSize));
+  }
+
+  return { frames, cycleLength: frameSize, totalCycles: frameCount };
+};
+
+// --- VITAL WAVETABLE JSON ---
+// Vital stores one "Wave Source" component whose keyframes carry base64 encoded float32 cycles
+// of 2048 samples, positioned on a 0..256 frame axis.
+
+const VITAL_WAVEFORM_SIZE = 2048;
+const VITAL_MAX_POSITION = 256;
+
+interface VitalKeyframe {
+  position: number;
+  wave_data: string;
+}
+
+// The parts of a Vital table the importer reads; everything in it is untrusted until checked
+interface VitalTable {
+  groups?: { components?: { type?: string; keyframes?: Partial<VitalKeyframe>[] }[] }[];
+}
+
+export const exportWavetableToVital = (frames: Float32Array[], name: string): Blob => {
+  const count = Math.min(frames.length, VITAL_MAX_POSITION + 1);
+  const keyframes: VitalKeyframe[] = [];
+  for (let f = 0; f < count; f++) {
+    keyframes.push({
+      // Spread over the whole 0..256 axis so the table fills Vital's position range
+      position: count > 1 ? Math.round((f * VITAL_MAX_POSITION) / (count - 1)) : 0,
+      wave_data: encodeFloat32Base64(resampleCycle(frames[f], VITAL_WAVEFORM_SIZE)),
+    });
+  }
+
+  const table = {
+    name,
+    author: 'WaveForge',
+    version: '1.0.0',
+    full_normalize: false,
+    remove_all_dc: false,
+    groups: [
+      {
+        components: [
+          {
+            type: 'Wave Source',
+            interpolation: 0,
+            interpolation_style: 1,
+            keyframes,
+          },
+        ],
+      },
+    ],
+  };
+
+  return new Blob([JSON.stringify(table)], { type: 'application/json' });
+};
+
+export const parseVitalTable = (text: string, targetSize: number = FRAME_SIZE): WavetableImportResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Not a Vital wavetable: the file is not valid JSON.');
+  }
+
+  const data = json as VitalTable | null;
+  const groups = data && typeof data === 'object' && Array.isArray(data.groups) ? data.groups : [];
+  const components = groups.flatMap(group => (Array.isArray(group?.components) ? group.components : []));
+  const source = components.find(c => c?.type === 'Wave Source' && Array.isArray(c.keyframes) && c.keyframes.length > 0);
+  if (!source?.keyframes) {
+    throw new Error('Unsupported Vital wavetable: no "Wave Source" keyframes found (only drawn/imported waves can be loaded).');
+  }
+
+  const keyframes = source.keyframes
+    .map((kf, i) => {
+      if (typeof kf?.wave_data !== 'string') {
+        throw new Error(`Invalid Vital wavetable: keyframe ${i + 1} has no wave data.`);
+      }
+      const cycle = decodeFloat32Base64(kf.wave_data);
+      if (cycle.length < 2) {
+        throw new Error(`Invalid Vital wavetable: keyframe ${i + 1} wave data is empty.`);
+      }
+      return { position: Math.max(0, Math.round(Number(kf.position) || 0)), data: resampleCycle(cycle, targetSize) };
+    })
+    .sort((a, b) => a.position - b.position);
+
+  // Vital interpolates between sparse keyframes; rebuild every frame up to the last keyframe.
+  // Its 0..256 axis has one slot more than MAX_FRAMES, so longer spans are rescaled rather than
+  // cut off, which keeps the first and last keyframes exact.
+  const first = keyframes[0].position;
+  const span = keyframes[keyframes.length - 1].position - first;
+  const count = Math.min(span + 1, MAX_FRAMES);
+  const frames: Float32Array[] = [];
+  let k = 0;
+  for (let f = 0; f < count; f++) {
+    const pos = count > 1 ? first + (f * span) / (count - 1) : first;
+    while (k < keyframes.length - 1 && keyframes[k + 1].position <= pos) k++;
+    const a = keyframes[k];
+    const b = keyframes[Math.min(k + 1, keyframes.length - 1)];
+    if (a.position === pos || a === b) {
+      frames.push(new Float32Array(a.data));
+    } else {
+      frames.push(interpolateFrames(a.data, b.data, (pos - a.position) / (b.position - a.position)));
+    }
+  }
+
+  // Nothing was dropped, so there is no truncation to report
+  return { frames, cycleLength: VITAL_WAVEFORM_SIZE, totalCycles: frames.length };
+};
+
+// --- FORMAT DETECTION ---
+
+// Pick the parser from the file contents rather than the extension, which is often wrong for .wav/.wt
+export const parseWavetableFile = (buffer: ArrayBuffer, options: WavImportOptions): WavetableImportResult => {
+  const view = new DataView(buffer);
+  const tag = buffer.byteLength >= 4 ? readTag(view, 0) : '';
+
+  if (tag === 'RIFF') {
+    const { frames, cycleLength, totalCycles } = parseWavetableWav(buffer, options);
+    return { frames, cycleLength, totalCycles };
+  }
+  if (tag === 'vawt') return parseSurgeWt(buffer, options.frameSize);
+
+  const text = new TextDecoder().decode(buffer).trimStart();
+  if (text.startsWith('{')) return parseVitalTable(text, options.frameSize);
+
+  throw new Error('Unrecognized file format. Supported: .wav, Surge .wt and Vital wavetable JSON.');
+};
+
+// --- HELPERS ---
+
+// Little-endian float32 bytes as base64, the encoding Vital uses for wave data
+export const encodeFloat32Base64 = (data: Float32Array): string => {
+  const bytes = new Uint8Array(data.length * 4);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < data.length; i++) view.setFloat32(i * 4, data[i], true);
+
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+};
+
+export const decodeFloat32Base64 = (encoded: string): Float32Array => {
+  const binary = atob(encoded);
+  const view = new DataView(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) view.setUint8(i, binary.charCodeAt(i));
+
+  const data = new Float32Array(Math.floor(binary.length / 4));
+  for (let i = 0; i < data.length; i++) data[i] = view.getFloat32(i * 4, true);
+  return data;
+};
+
+const writeTag = (view: DataView, offset: number, tag: string) => {
+  for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+};
+
+const readTag = (view: DataView, offset: number): string => {
+  return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+};
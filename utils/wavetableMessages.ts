@@ -0,0 +1,26 @@
+// Shared between the main thread and the wavetable AudioWorklet processor
+
+import type { ScanSettings } from '../types';
+
+export const WAVETABLE_PROCESSOR_NAME = 'wavetable-oscillator';
+
+// Every mipmap level of every frame: table[frame][level], level 0 = full bandwidth
+export type WavetableMipmaps = Float32Array[][];
+
+export type WavetableMessage =
+  | { type: 'table'; mipmaps: WavetableMipmaps }
+  | { type: 'frame'; index: number; mipmap: Float32Array[] }
+  | { type: 'scan'; scan: WavetableScan | null }
+  | { type: 'dispose' };
+
+// An LFO or mod wheel scan evaluated on the audio thread. While one is set it replaces every
+// oscillator's position parameter; envelope scans stay per-note parameter curves.
+export interface WavetableScan {
+  settings: ScanSettings;
+  startTime: number;    // AudioContext time the LFO started at
+}
+
+export interface WavetableProcessorOptions {
+  phase?: number;       // start phase 0..1, randomised per unison voice to avoid phasing
+  tableOnly?: boolean;  // silent node that only receives table updates
+}
@@ -0,0 +1,63 @@
+import processorUrl from './wavetableProcessor.ts?worker&url';
+import { WAVETABLE_PROCESSOR_NAME, WavetableMessage, WavetableProcessorOptions, WavetableScan } from './wavetableMessages';
+import { buildFrameMipmap, buildTableMipmaps } from './bandLimit';
+
+// --- WORKLET LOADING ---
+
+const moduleLoads = new WeakMap<BaseAudioContext, Promise<void>>();
+
+// addModule must run once per context before any node can be created
+export const loadWavetableWorklet = (ctx: BaseAudioContext): Promise<void> => {
+  let load = moduleLoads.get(ctx);
+  if (!load) {
+    load = ctx.audioWorklet.addModule(processorUrl);
+    moduleLoads.set(ctx, load);
+  }
+  return load;
+};
+
+// The worklet module must already be loaded, see loadWavetableWorklet
+export const createWavetableOscillator = (ctx: BaseAudioContext, options: WavetableProcessorOptions = {}): AudioWorkletNode => {
+  return new AudioWorkletNode(ctx, WAVETABLE_PROCESSOR_NAME, {
+    numberOfInputs: 0,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions: options,
+  });
+};
+
+export const disposeWavetableOscillator = (node: AudioWorkletNode) => {
+  node.disconnect();
+  postMessage(node, { type: 'dispose' });
+};
+
+// --- TABLE UPLOAD ---
+
+// Frames are replaced on edit rather than mutated, so comparing buffer identity against the
+// last upload tells which frames changed. A brush stroke only re-sends the frame under the brush;
+// structural changes (add/delete/import) re-send the whole table.
+export const syncWavetable = (node: AudioWorkletNode, frames: Float32Array[], previous: Float32Array[] | null) => {
+  if (previous && previous.length === frames.length) {
+    frames.forEach((frame, index) => {
+      if (frame !== previous[index]) {
+        postMessage(node, { type: 'frame', index, mipmap: buildFrameMipmap(frame) });
+      }
+    });
+    return;
+  }
+  postMessage(node, { type: 'table', mipmaps: buildTableMipmaps(frames) });
+};
+
+// Like the table, the scan is shared by every oscillator of the context, so any node can carry it
+export const setWavetableScan = (node: AudioWorkletNode, scan: WavetableScan | null) => {
+  postMessage(node, { type: 'scan', scan });
+};
+
+// Map a frame index onto the oscillator's 0..1 position parameter
+export const frameIndexToPosition = (index: number, frameCount: number): number => {
+  return frameCount > 1 ? index / (frameCount - 1) : 0;
+};
+
+const postMessage = (node: AudioWorkletNode, message: WavetableMessage) => {
+  node.port.postMessage(message);
+};
@@ -0,0 +1,126 @@
+// Wavetable oscillator running on the audio thread (AudioWorkletGlobalScope).
+// Bundled on its own and loaded through `audioWorklet.addModule`: no DOM, no React, no app state.
+
+import { WAVETABLE_PROCESSOR_NAME, WavetableMessage, WavetableMipmaps, WavetableProcessorOptions, WavetableScan } from './wavetableMessages';
+import { getScanPosition } from './scanModulation';
+
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+
+// The table lives at module level, which is shared by every processor instance of one AudioContext.
+// Voices therefore only need the table posted once, to any node.
+let table: WavetableMipmaps = [];
+
+// The scan is shared the same way. Its positions are computed once per render quantum, by whichever
+// voice runs first, and smoothed so the saw reset and sample & hold steps glide instead of click.
+let scan: WavetableScan | null = null;
+let scanBlock = new Float32Array(128);
+let scanBlockFrame = -1;   // currentFrame that scanBlock was computed for
+let scanLevel = NaN;       // smoothed position; NaN snaps to the first value of a new scan
+// Seconds to glide, the same as the synth uses for position changes
+const SCAN_SMOOTHING = 0.02;
+
+const getScanBlock = (length: number): Float32Array => {
+  if (scanBlockFrame === currentFrame && scanBlock.length === length) return scanBlock;
+  if (scanBlock.length !== length) scanBlock = new Float32Array(length);
+  const coeff = 1 - Math.exp(-1 / (SCAN_SMOOTHING * sampleRate));
+  for (let i = 0; i < length; i++) {
+    const target = getScanPosition(scan!.settings, (currentFrame + i) / sampleRate - scan!.startTime);
+    scanLevel = Number.isNaN(scanLevel) ? target : scanLevel + (target - scanLevel) * coeff;
+    scanBlock[i] = scanLevel;
+  }
+  scanBlockFrame = currentFrame;
+  return scanBlock;
+};
+
+class WavetableProcessor extends AudioWorkletProcessor {
+  private phase = 0;
+  private alive = true;
+  // A table-only node never renders; it just keeps a port open to update the shared table
+  private tableOnly = false;
+
+  static get parameterDescriptors() {
+    return [
+      { name: 'frequency', defaultValue: 65.41, minValue: 0, maxValue: 20000, automationRate: 'a-rate' },
+      // 0 = first frame, 1 = last frame; fractional positions crossfade adjacent frames
+      { name: 'position', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'a-rate' },
+    ];
+  }
+
+  constructor(options?: { processorOptions?: WavetableProcessorOptions }) {
+    super(options);
+    this.phase = options?.processorOptions?.phase ?? 0;
+    this.tableOnly = options?.processorOptions?.tableOnly ?? false;
+    this.port.onmessage = (event: MessageEvent<WavetableMessage>) => {
+      const msg = event.data;
+      if (msg.type === 'table') {
+        table = msg.mipmaps;
+      } else if (msg.type === 'frame') {
+        if (msg.index >= 0 && msg.index < table.length) table[msg.index] = msg.mipmap;
+      } else if (msg.type === 'scan') {
+        // Snap when a scan starts; setting changes while scanning glide
+        if (!scan) scanLevel = NaN;
+        scan = msg.scan;
+        scanBlockFrame = -1;
+      } else if (msg.type === 'dispose') {
+        this.alive = false;
+      }
+    };
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+    const output = outputs[0];
+    const channel = output?.[0];
+    if (!channel || this.tableOnly) return this.alive;
+
+    const frameCount = table.length;
+    if (frameCount === 0) {
+      channel.fill(0);
+    } else {
+      const freqs = parameters.frequency;
+      const positions = scan ? getScanBlock(channel.length) : parameters.position;
+      const levelCount = table[0].length;
+      const frameSize = table[0][0].length;
+      const nyquist = sampleRate / 2;
+
+      // Mipmap level is picked once per block from the block's first frequency
+      let level = 0;
+      while (level < levelCount - 1 && ((frameSize >> 1) >> level) * freqs[0] > nyquist) level++;
+
+      for (let i = 0; i < channel.length; i++) {
+        const freq = freqs.length > 1 ? freqs[i] : freqs[0];
+        const pos = (positions.length > 1 ? positions[i] : positions[0]) * (frameCount - 1);
+        const indexA = Math.max(0, Math.min(frameCount - 1, Math.floor(pos)));
+        const indexB = Math.min(frameCount - 1, indexA + 1);
+        const mix = Math.max(0, Math.min(1, pos - indexA));
+
+        const a = readCycle(table[indexA][level], this.phase);
+        const b = mix > 0 ? readCycle(table[indexB][level], this.phase) : 0;
+        channel[i] = a + (b - a) * mix;
+
+        this.phase += freq / sampleRate;
+        this.phase -= Math.floor(this.phase);
+      }
+    }
+
+    for (let ch = 1; ch < output.length; ch++) output[ch].set(channel);
+    return this.alive;
+  }
+}
+
+// Linear interpolation inside one looping cycle; phase is 0..1
+const readCycle = (cycle: Float32Array, phase: number): number => {
+  const pos = phase * cycle.length;
+  const idx = Math.floor(pos);
+  const frac = pos - idx;
+  const a = cycle[idx % cycle.length];
+  const b = cycle[(idx + 1) % cycle.length];
+  return a + (b - a) * frac;
+};
+
+registerProcessor(WAVETABLE_PROCESSOR_NAME, WavetableProcessor);